@@ -13,6 +13,7 @@ const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
     Permission.VIEW_CHANNELS,
     Permission.MANAGE_CHANNELS,
     Permission.VIEW_SYSTEM,
+    Permission.MODERATE_REPORTS,
   ],
   SUPER_ADMIN: Object.values(Permission),
 };
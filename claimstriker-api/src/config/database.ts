@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { env } from './env.js';
 
 const globalForPrisma = globalThis as unknown as {
@@ -15,6 +15,13 @@ if (env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
 }
 
+/**
+ * Whether a write failed on a unique constraint, e.g. lost a race with a concurrent request.
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
 export async function connectDatabase() {
   try {
     await prisma.$connect();
@@ -3,6 +3,31 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Key id of ENCRYPTION_KEY in the key ring
+export const DEFAULT_ENCRYPTION_KEY_ID = 'default';
+
+/**
+ * A JSON value in an env var, parsed and checked at boot so a bad value fails fast
+ * instead of on first use.
+ */
+function json<T extends z.ZodTypeAny>(schema: T, message: string) {
+  return z.string().transform((raw, ctx): z.infer<T> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = null;
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      return z.NEVER;
+    }
+    return result.data;
+  });
+}
+
 const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().url(),
@@ -13,8 +38,14 @@ const envSchema = z.object({
   // JWT
   JWT_SECRET: z.string().min(32),
 
-  // Encryption (64 hex chars = 32 bytes)
-  ENCRYPTION_KEY: z.string().length(64),
+  // Encryption (64 hex chars = 32 bytes). ENCRYPTION_KEY is the key id "default";
+  // ENCRYPTION_KEYS adds more as JSON of key id to key, for rotation
+  ENCRYPTION_KEY: z.string().length(64).optional(),
+  ENCRYPTION_KEYS: json(
+    z.record(z.string().regex(/^[A-Za-z0-9_-]+$/), z.string().regex(/^[0-9a-fA-F]{64}$/)),
+    'ENCRYPTION_KEYS must be a JSON object of key id to 64 hex chars'
+  ).optional(),
+  ENCRYPTION_ACTIVE_KEY_ID: z.string().optional(),
 
   // Google OAuth
   GOOGLE_CLIENT_ID: z.string(),
@@ -24,10 +55,35 @@ const envSchema = z.object({
   // AI Providers
   OPENAI_API_KEY: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
+  AI_PROVIDER: z.enum(['anthropic', 'openai', 'stub']).optional(),
+  AI_MODEL: z.string().optional(),
 
   // Email
+  EMAIL_TRANSPORT: z.enum(['sendgrid', 'smtp', 'file', 'memory', 'console']).optional(),
   SENDGRID_API_KEY: z.string().optional(),
   EMAIL_FROM: z.string().email().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).default('587'),
+  SMTP_SECURE: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  EMAIL_FILE_DIR: z.string().default('./emails'),
+
+  // Revenue estimates: JSON of country code (or DEFAULT) to RPM in USD
+  RPM_TABLE: json(
+    z.record(z.number().nonnegative()),
+    'RPM_TABLE must be a JSON object of country code to RPM'
+  ).optional(),
+
+  // Webhooks: allow endpoints on loopback or private addresses, for a local receiver.
+  // Never in production
+  WEBHOOK_ALLOW_PRIVATE_URLS: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .default('false'),
 
   // Server
   PORT: z.string().transform(Number).default('3001'),
@@ -35,6 +91,25 @@ const envSchema = z.object({
 
   // Frontend URL
   FRONTEND_URL: z.string().url().default('http://localhost:3000'),
+}).refine((env) => env.ENCRYPTION_KEY || env.ENCRYPTION_KEYS, {
+  message: 'ENCRYPTION_KEY or ENCRYPTION_KEYS is required',
+  path: ['ENCRYPTION_KEY'],
+}).refine((env) => !(env.ENCRYPTION_KEY && env.ENCRYPTION_KEYS?.[DEFAULT_ENCRYPTION_KEY_ID]), {
+  message: `ENCRYPTION_KEYS can't use the id "${DEFAULT_ENCRYPTION_KEY_ID}" while ENCRYPTION_KEY is set`,
+  path: ['ENCRYPTION_KEYS'],
+}).refine(
+  (env) => {
+    const activeKeyId = env.ENCRYPTION_ACTIVE_KEY_ID || DEFAULT_ENCRYPTION_KEY_ID;
+    const isEncryptionKey = activeKeyId === DEFAULT_ENCRYPTION_KEY_ID && !!env.ENCRYPTION_KEY;
+    return isEncryptionKey || !!env.ENCRYPTION_KEYS?.[activeKeyId];
+  },
+  {
+    message: 'ENCRYPTION_ACTIVE_KEY_ID must name a configured key',
+    path: ['ENCRYPTION_ACTIVE_KEY_ID'],
+  }
+).refine((env) => !(env.WEBHOOK_ALLOW_PRIVATE_URLS && env.NODE_ENV === 'production'), {
+  message: 'WEBHOOK_ALLOW_PRIVATE_URLS cannot be enabled in production',
+  path: ['WEBHOOK_ALLOW_PRIVATE_URLS'],
 });
 
 function validateEnv() {
@@ -0,0 +1,71 @@
+import { env } from './env.js';
+
+interface RpmEntry {
+  rpm: number; // USD earned per 1,000 monetized views
+  viewShare: number; // Rough share of a typical channel's views
+}
+
+// ISO 3166-1 territories, used to spread the unlisted view share
+const TOTAL_TERRITORIES = 249;
+
+/**
+ * Rough creator RPMs for the largest YouTube markets. Override per country
+ * with RPM_TABLE, e.g. RPM_TABLE='{"US":5.2,"DEFAULT":0.8}'.
+ */
+const DEFAULT_RPM_TABLE: Record<string, RpmEntry> = {
+  US: { rpm: 4.0, viewShare: 0.11 },
+  IN: { rpm: 0.5, viewShare: 0.15 },
+  BR: { rpm: 1.0, viewShare: 0.06 },
+  ID: { rpm: 0.6, viewShare: 0.05 },
+  MX: { rpm: 1.0, viewShare: 0.04 },
+  JP: { rpm: 2.5, viewShare: 0.04 },
+  GB: { rpm: 3.5, viewShare: 0.03 },
+  DE: { rpm: 3.5, viewShare: 0.03 },
+  KR: { rpm: 2.0, viewShare: 0.02 },
+  FR: { rpm: 2.5, viewShare: 0.025 },
+  CA: { rpm: 3.5, viewShare: 0.02 },
+  AU: { rpm: 4.0, viewShare: 0.015 },
+};
+
+// RPM for every territory not listed above
+const DEFAULT_RPM = 1.0;
+
+export interface RpmTable {
+  rpm(country: string): number;
+  viewShare(country: string): number;
+  blendedRpm: number; // Across all territories, weighted by view share
+}
+
+let rpmTable: RpmTable | null = null;
+
+export function getRpmTable(): RpmTable {
+  if (rpmTable) {
+    return rpmTable;
+  }
+
+  const overrides: Record<string, number> = Object.fromEntries(
+    Object.entries(env.RPM_TABLE ?? {}).map(([country, rpm]) => [country.toUpperCase(), rpm])
+  );
+  const defaultRpm = overrides.DEFAULT ?? DEFAULT_RPM;
+
+  const listed = Object.values(DEFAULT_RPM_TABLE);
+  const listedShare = listed.reduce((sum, entry) => sum + entry.viewShare, 0);
+  const unlistedViewShare = (1 - listedShare) / (TOTAL_TERRITORIES - listed.length);
+
+  const rpm = (country: string) =>
+    overrides[country] ?? DEFAULT_RPM_TABLE[country]?.rpm ?? defaultRpm;
+  const viewShare = (country: string) =>
+    DEFAULT_RPM_TABLE[country]?.viewShare ?? unlistedViewShare;
+
+  // Unlisted territories all use the default RPM unless overridden individually
+  const unlistedOverrides = Object.keys(overrides).filter(
+    (country) => country !== 'DEFAULT' && !DEFAULT_RPM_TABLE[country]
+  );
+  const blendedRpm =
+    Object.keys(DEFAULT_RPM_TABLE).reduce((sum, c) => sum + rpm(c) * viewShare(c), 0) +
+    (1 - listedShare - unlistedOverrides.length * unlistedViewShare) * defaultRpm +
+    unlistedOverrides.reduce((sum, c) => sum + rpm(c) * unlistedViewShare, 0);
+
+  rpmTable = { rpm, viewShare, blendedRpm };
+  return rpmTable;
+}
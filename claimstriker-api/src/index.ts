@@ -1,15 +1,22 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import jwt from '@fastify/jwt';
+import cookie from '@fastify/cookie';
 import { env } from './config/env.js';
 import { connectDatabase, disconnectDatabase } from './config/database.js';
 import { disconnectRedis } from './config/redis.js';
+import { ACCESS_TOKEN_TTL_SECONDS, isSessionRevoked } from './lib/sessions.js';
 import { authRoutes } from './routes/auth.js';
 import { channelRoutes } from './routes/channels.js';
 import { videoRoutes } from './routes/videos.js';
 import { eventRoutes } from './routes/events.js';
 import { youtubeRoutes } from './routes/youtube.js';
 import { adminRoutes } from './routes/admin.js';
+import { disputeRoutes } from './routes/disputes.js';
+import { claimantRoutes } from './routes/claimants.js';
+import { notificationRoutes } from './routes/notifications.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { integrationRoutes } from './routes/integrations.js';
 import type { JWTPayload } from './types/index.js';
 
 const fastify = Fastify({
@@ -35,18 +42,26 @@ await fastify.register(cors, {
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 });
 
+await fastify.register(cookie);
+
 await fastify.register(jwt, {
   secret: env.JWT_SECRET,
   sign: {
-    expiresIn: '7d',
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
   },
 });
 
 // Authentication decorator
 fastify.decorate('authenticate', async function (request: any, reply: any) {
   try {
-    const payload = await request.jwtVerify();
-    request.user = payload as JWTPayload;
+    const payload = (await request.jwtVerify()) as JWTPayload;
+
+    // Tokens from before sessions existed, or whose session was signed out
+    if (!payload.sessionId || (await isSessionRevoked(payload.sessionId))) {
+      return reply.status(401).send({ success: false, error: 'Session expired' });
+    }
+
+    request.user = payload;
   } catch (err) {
     reply.status(401).send({ success: false, error: 'Unauthorized' });
   }
@@ -63,6 +78,11 @@ await fastify.register(youtubeRoutes, { prefix: '/auth/youtube' });
 await fastify.register(channelRoutes, { prefix: '/channels' });
 await fastify.register(videoRoutes, { prefix: '/videos' });
 await fastify.register(eventRoutes, { prefix: '/events' });
+await fastify.register(disputeRoutes, { prefix: '/disputes' });
+await fastify.register(claimantRoutes, { prefix: '/claimants' });
+await fastify.register(notificationRoutes, { prefix: '/notifications' });
+await fastify.register(webhookRoutes, { prefix: '/webhooks' });
+await fastify.register(integrationRoutes, { prefix: '/integrations' });
 await fastify.register(adminRoutes, { prefix: '/admin' });
 
 // Error handler
@@ -0,0 +1,150 @@
+import { getTextProvider, type TextProvider } from './provider.js';
+
+export interface DisputeTextInput {
+  videoTitle: string;
+  claimantName?: string | null;
+  claimedContent?: string | null;
+  contentType?: string | null;
+  policyAction?: string | null;
+  matchStartMs?: number | null;
+  matchEndMs?: number | null;
+  disputeType?: string | null;
+  isOriginalContent?: boolean | null;
+  hasLicense?: boolean | null;
+  isFairUse?: boolean | null;
+  fairUseType?: string | null;
+  evidenceNotes?: string | null;
+  userNotes?: string | null;
+}
+
+export interface GeneratedDisputeText {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+const SYSTEM_PROMPT =
+  'You help YouTube creators write copyright claim disputes. ' +
+  'Write in the first person as the creator, in a calm and factual tone, in plain text without markdown. ' +
+  'Only state facts supplied by the creator; never invent licenses, dates or evidence. ' +
+  'Keep the dispute under 250 words so it fits in the YouTube dispute form.';
+
+const DISPUTE_TYPE_LABELS: Record<string, string> = {
+  ORIGINAL_CONTENT: 'the claimed material is my own original content',
+  LICENSED: 'I hold a license or permission to use the claimed material',
+  FAIR_USE: 'my use of the claimed material is fair use',
+  PUBLIC_DOMAIN: 'the claimed material is in the public domain',
+  MISIDENTIFICATION: 'the Content ID match is a misidentification',
+  OTHER: 'the claim is not valid',
+};
+
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function describeMatch(input: DisputeTextInput): string | null {
+  if (input.matchStartMs == null || input.matchEndMs == null) {
+    return null;
+  }
+  return `${formatTimestamp(input.matchStartMs)}-${formatTimestamp(input.matchEndMs)}`;
+}
+
+function formatAnswer(value: boolean | null | undefined): string {
+  if (value === true) return 'yes';
+  if (value === false) return 'no';
+  return 'not answered';
+}
+
+/**
+ * Build the user prompt sent to the model from the wizard answers and claim details.
+ */
+export function buildDisputePrompt(input: DisputeTextInput): string {
+  const lines = [
+    'Write a copyright dispute for the following Content ID claim.',
+    '',
+    'Claim details:',
+    `- Video: ${input.videoTitle}`,
+    `- Claimant: ${input.claimantName || 'unknown'}`,
+    `- Claimed content: ${input.claimedContent || 'not specified'}`,
+    `- Content type: ${input.contentType || 'unknown'}`,
+    `- Policy applied by claimant: ${input.policyAction || 'unknown'}`,
+    `- Matched segment: ${describeMatch(input) || 'unknown'}`,
+    '',
+    'Creator answers:',
+    `- Dispute basis: ${input.disputeType || 'not selected'}`,
+    `- Original content: ${formatAnswer(input.isOriginalContent)}`,
+    `- Has license: ${formatAnswer(input.hasLicense)}`,
+    `- Fair use: ${formatAnswer(input.isFairUse)}${input.fairUseType ? ` (${input.fairUseType})` : ''}`,
+  ];
+
+  if (input.evidenceNotes) {
+    lines.push(`- Evidence: ${input.evidenceNotes}`);
+  }
+
+  if (input.userNotes) {
+    lines.push(`- Additional notes: ${input.userNotes}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a dispute from a fixed template.
+ * Used by the stub provider so drafts are deterministic when no model is available.
+ */
+export function renderDisputeTemplate(input: DisputeTextInput): string {
+  const basis =
+    DISPUTE_TYPE_LABELS[input.disputeType || 'OTHER'] || DISPUTE_TYPE_LABELS.OTHER;
+  const content = input.claimedContent ? `"${input.claimedContent}"` : 'the claimed content';
+  const claimant = input.claimantName || 'the claimant';
+  const match = describeMatch(input);
+
+  const paragraphs = [
+    `I am disputing the claim by ${claimant} on my video "${input.videoTitle}"` +
+      `${match ? ` for the segment ${match}` : ''}, which identifies ${content}. ` +
+      `I believe this claim is invalid because ${basis}.`,
+  ];
+
+  if (input.disputeType === 'FAIR_USE' && input.fairUseType) {
+    paragraphs.push(
+      `The material is used for ${input.fairUseType}. It is transformative, limited to what is ` +
+        'needed for that purpose, and does not substitute for the original work.'
+    );
+  }
+
+  if (input.evidenceNotes) {
+    paragraphs.push(`Supporting details: ${input.evidenceNotes.trim()}`);
+  }
+
+  paragraphs.push('I respectfully ask that the claim be released.');
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Generate a dispute draft with the configured text provider.
+ */
+export async function generateDisputeText(
+  input: DisputeTextInput,
+  provider: TextProvider = getTextProvider()
+): Promise<GeneratedDisputeText> {
+  const text = await provider.generate({
+    system: SYSTEM_PROMPT,
+    prompt: buildDisputePrompt(input),
+    maxTokens: 800,
+    fallback: renderDisputeTemplate(input),
+  });
+
+  if (!text) {
+    throw new Error('Text provider returned an empty dispute');
+  }
+
+  return {
+    text,
+    provider: provider.name,
+    model: provider.model,
+  };
+}
@@ -0,0 +1,176 @@
+import { getTextProvider, type TextProvider } from './provider.js';
+import { formatTimestamp } from './disputeText.js';
+
+export interface EventExplanationInput {
+  type: string; // CLAIM, STRIKE, MONETIZATION_CHANGE, REGION_RESTRICTION
+  status: string;
+  videoTitle: string;
+  claimantName?: string | null;
+  claimedContent?: string | null;
+  contentType?: string | null;
+  policyAction?: string | null;
+  matchStartMs?: number | null;
+  matchEndMs?: number | null;
+  totalMatchMs?: number | null;
+  matchPercent?: number | null;
+  affectedRegions?: string[];
+  changeDescription?: string | null;
+}
+
+const SYSTEM_PROMPT =
+  'You explain YouTube copyright events to creators who are not lawyers. ' +
+  'Use plain language, short sentences and no markdown. ' +
+  'Cover, in this order: what was matched, which parts of the video or which regions are affected, ' +
+  'what happens to revenue, and what the creator can do next. ' +
+  'Only use the facts provided and keep it under 120 words.';
+
+function describeRegions(regions: string[] = []): string | null {
+  if (regions.length === 0) {
+    return null;
+  }
+  if (regions.length > 8) {
+    return `${regions.slice(0, 8).join(', ')} and ${regions.length - 8} more`;
+  }
+  return regions.join(', ');
+}
+
+function describeTotalMatch(input: EventExplanationInput): string | null {
+  if (input.totalMatchMs == null) {
+    return null;
+  }
+  return input.matchPercent != null
+    ? `${formatTimestamp(input.totalMatchMs)} (${input.matchPercent}% of the video)`
+    : formatTimestamp(input.totalMatchMs);
+}
+
+/**
+ * Build the user prompt for a plain-language event explanation.
+ */
+export function buildExplanationPrompt(input: EventExplanationInput): string {
+  const match =
+    input.matchStartMs != null && input.matchEndMs != null
+      ? `${formatTimestamp(input.matchStartMs)}-${formatTimestamp(input.matchEndMs)}`
+      : 'unknown';
+
+  const lines = [
+    'Explain this copyright event to the creator.',
+    '',
+    `- Event type: ${input.type}`,
+    `- Status: ${input.status}`,
+    `- Video: ${input.videoTitle}`,
+    `- Claimant: ${input.claimantName || 'unknown'}`,
+    `- Claimed content: ${input.claimedContent || 'not specified'}`,
+    `- Content type: ${input.contentType || 'unknown'}`,
+    `- Policy action: ${input.policyAction || 'unknown'}`,
+    `- Matched segment: ${match}`,
+    `- Total matched: ${describeTotalMatch(input) || 'unknown'}`,
+    `- Affected regions: ${describeRegions(input.affectedRegions) || 'none listed'}`,
+  ];
+
+  if (input.changeDescription) {
+    lines.push(`- Detected change: ${input.changeDescription}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render an explanation from fixed templates.
+ * Used when no LLM is configured so every event still gets a readable summary.
+ */
+export function renderExplanationTemplate(input: EventExplanationInput): string {
+  const regions = describeRegions(input.affectedRegions);
+
+  if (input.type === 'REGION_RESTRICTION') {
+    return [
+      `"${input.videoTitle}" can no longer be watched in some countries` +
+        `${regions ? ` (${regions})` : ''}.`,
+      input.changeDescription ? `We detected: ${input.changeDescription}.` : null,
+      'Viewers there see an error instead of your video, so you earn nothing from those regions.',
+      'Check the claims on this video in YouTube Studio; if a claim caused the block, ' +
+        'you can dispute it or remove the claimed part.',
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  if (input.type === 'MONETIZATION_CHANGE') {
+    return [
+      `The status of "${input.videoTitle}" changed.`,
+      input.changeDescription ? `We detected: ${input.changeDescription}.` : null,
+      'If the video is no longer public or processed it will not earn revenue.',
+      'Open YouTube Studio to see whether a copyright action or a policy review caused this.',
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  const claimant = input.claimantName || 'A rights holder';
+  const content = input.claimedContent ? `"${input.claimedContent}"` : 'their content';
+  const contentType = input.contentType && input.contentType !== 'unknown'
+    ? ` (${input.contentType.toLowerCase()})`
+    : '';
+  const where =
+    input.matchStartMs != null && input.matchEndMs != null
+      ? ` between ${formatTimestamp(input.matchStartMs)} and ${formatTimestamp(input.matchEndMs)}`
+      : '';
+
+  const sentences = [
+    `${claimant} says "${input.videoTitle}" uses ${content}${contentType}${where}.`,
+  ];
+
+  const totalMatch = describeTotalMatch(input);
+  if (totalMatch) {
+    sentences.push(`In total ${totalMatch} matches.`);
+  }
+
+  switch (input.policyAction) {
+    case 'monetize':
+      sentences.push(
+        `Ads can still run, but the revenue${regions ? ` in ${regions}` : ''} goes to the claimant instead of you.`
+      );
+      break;
+    case 'block':
+      sentences.push(
+        `The video is blocked${regions ? ` in ${regions}` : ' where the claim applies'}, ` +
+          'so it earns nothing there.'
+      );
+      break;
+    case 'track':
+      sentences.push('The claimant is only tracking viewing statistics, so your revenue is not affected.');
+      break;
+    default:
+      sentences.push('The effect on your revenue is not known yet.');
+  }
+
+  if (input.type === 'STRIKE') {
+    sentences.push(
+      'This is a copyright strike: it counts against your channel for 90 days and three active strikes can get the channel terminated.'
+    );
+  }
+
+  sentences.push(
+    input.status === 'DISPUTED'
+      ? 'A dispute is in progress; the claimant has 30 days to respond.'
+      : 'If you own or licensed this material you can dispute the claim; otherwise you can trim or mute the matched part.'
+  );
+
+  return sentences.join(' ');
+}
+
+/**
+ * Generate a plain-language explanation for a copyright event.
+ */
+export async function generateEventExplanation(
+  input: EventExplanationInput,
+  provider: TextProvider = getTextProvider()
+): Promise<string> {
+  const text = await provider.generate({
+    system: SYSTEM_PROMPT,
+    prompt: buildExplanationPrompt(input),
+    maxTokens: 400,
+    fallback: renderExplanationTemplate(input),
+  });
+
+  return text || renderExplanationTemplate(input);
+}
@@ -0,0 +1,121 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { env } from '../../config/env.js';
+
+export type TextProviderName = 'anthropic' | 'openai' | 'stub';
+
+export interface TextGenerationRequest {
+  system: string;
+  prompt: string;
+  maxTokens?: number;
+  // Deterministic text returned by the stub provider instead of calling a model
+  fallback?: string;
+}
+
+export interface TextProvider {
+  name: TextProviderName;
+  model: string;
+  generate(request: TextGenerationRequest): Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<TextProviderName, string> = {
+  anthropic: 'claude-3-5-sonnet-latest',
+  openai: 'gpt-4o-mini',
+  stub: 'stub-v1',
+};
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+function createAnthropicProvider(apiKey: string, model: string): TextProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    model,
+    async generate(request) {
+      const response = await client.messages.create({
+        model,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+      });
+
+      return response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('')
+        .trim();
+    },
+  };
+}
+
+function createOpenAIProvider(apiKey: string, model: string): TextProvider {
+  const client = new OpenAI({ apiKey });
+
+  return {
+    name: 'openai',
+    model,
+    async generate(request) {
+      const response = await client.chat.completions.create({
+        model,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+      });
+
+      return response.choices[0]?.message?.content?.trim() || '';
+    },
+  };
+}
+
+/**
+ * Local provider that never leaves the process.
+ * Returns the caller's deterministic fallback so output is stable for offline testing.
+ */
+export function createStubProvider(): TextProvider {
+  return {
+    name: 'stub',
+    model: DEFAULT_MODELS.stub,
+    async generate(request) {
+      return (request.fallback ?? request.prompt).trim();
+    },
+  };
+}
+
+let cachedProvider: TextProvider | null = null;
+
+/**
+ * Get the configured text provider.
+ * AI_PROVIDER selects one explicitly; otherwise the first provider with an API key wins,
+ * falling back to the stub when no key is configured.
+ */
+export function getTextProvider(): TextProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const requested = env.AI_PROVIDER;
+
+  if (requested === 'anthropic' || (!requested && env.ANTHROPIC_API_KEY)) {
+    if (!env.ANTHROPIC_API_KEY) {
+      throw new Error('AI_PROVIDER is anthropic but ANTHROPIC_API_KEY is not set');
+    }
+    cachedProvider = createAnthropicProvider(
+      env.ANTHROPIC_API_KEY,
+      env.AI_MODEL || DEFAULT_MODELS.anthropic
+    );
+  } else if (requested === 'openai' || (!requested && env.OPENAI_API_KEY)) {
+    if (!env.OPENAI_API_KEY) {
+      throw new Error('AI_PROVIDER is openai but OPENAI_API_KEY is not set');
+    }
+    cachedProvider = createOpenAIProvider(
+      env.OPENAI_API_KEY,
+      env.AI_MODEL || DEFAULT_MODELS.openai
+    );
+  } else {
+    cachedProvider = createStubProvider();
+  }
+
+  return cachedProvider;
+}
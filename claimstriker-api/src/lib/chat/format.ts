@@ -0,0 +1,116 @@
+import type { NotificationType } from '@prisma/client';
+import { env } from '../../config/env.js';
+
+export interface ChatNotification {
+  type: NotificationType;
+  title: string;
+  message: string;
+  videoId?: string | null;
+  eventId?: string | null;
+  createdAt: Date;
+}
+
+interface ChatStyle {
+  emoji: string;
+  color: number;
+  label: string;
+  actionLabel: string;
+}
+
+const STYLES: Record<NotificationType, ChatStyle> = {
+  NEW_CLAIM: { emoji: ':warning:', color: 0xf59e0b, label: 'New claim', actionLabel: 'Review claim' },
+  NEW_STRIKE: { emoji: ':rotating_light:', color: 0xef4444, label: 'Copyright strike', actionLabel: 'Review strike' },
+  MONETIZATION_CHANGE: { emoji: ':moneybag:', color: 0x3b82f6, label: 'Monetization change', actionLabel: 'View changes' },
+  DISPUTE_UPDATE: { emoji: ':scales:', color: 0x10b981, label: 'Dispute update', actionLabel: 'View dispute' },
+  SYNC_ERROR: { emoji: ':x:', color: 0x6b7280, label: 'Sync error', actionLabel: 'Check channels' },
+  WEEKLY_SUMMARY: { emoji: ':bar_chart:', color: 0x8b5cf6, label: 'Weekly summary', actionLabel: 'Open dashboard' },
+};
+
+// Discord doesn't render Slack emoji shortcodes in embed titles
+const DISCORD_EMOJI: Record<NotificationType, string> = {
+  NEW_CLAIM: '⚠️',
+  NEW_STRIKE: '🚨',
+  MONETIZATION_CHANGE: '💰',
+  DISPUTE_UPDATE: '⚖️',
+  SYNC_ERROR: '❌',
+  WEEKLY_SUMMARY: '📊',
+};
+
+/**
+ * Dashboard page a chat message links back to.
+ */
+export function getDashboardUrl(notification: ChatNotification): string {
+  switch (notification.type) {
+    case 'SYNC_ERROR':
+      return `${env.FRONTEND_URL}/channels`;
+    case 'WEEKLY_SUMMARY':
+      return `${env.FRONTEND_URL}/dashboard`;
+    default:
+      // The video page highlights the event named in the hash
+      if (notification.videoId) {
+        const anchor = notification.eventId ? `#event-${notification.eventId}` : '';
+        return `${env.FRONTEND_URL}/videos/${notification.videoId}${anchor}`;
+      }
+      return `${env.FRONTEND_URL}/events`;
+  }
+}
+
+/**
+ * Slack incoming-webhook payload using Block Kit.
+ */
+export function formatSlackMessage(notification: ChatNotification): Record<string, unknown> {
+  const style = STYLES[notification.type];
+  const url = getDashboardUrl(notification);
+
+  return {
+    // Fallback for clients that don't render blocks (e.g. push notifications)
+    text: `${style.emoji} ${notification.title}: ${notification.message}`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: notification.title, emoji: true },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `${style.emoji} ${notification.message}` },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: style.actionLabel },
+            url,
+            ...(notification.type === 'NEW_STRIKE' && { style: 'danger' }),
+          },
+        ],
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `ClaimStriker • ${style.label}` }],
+      },
+    ],
+  };
+}
+
+/**
+ * Discord webhook payload using an embed.
+ */
+export function formatDiscordMessage(notification: ChatNotification): Record<string, unknown> {
+  const style = STYLES[notification.type];
+  const url = getDashboardUrl(notification);
+
+  return {
+    username: 'ClaimStriker',
+    embeds: [
+      {
+        title: `${DISCORD_EMOJI[notification.type]} ${notification.title}`,
+        description: `${notification.message}\n\n[${style.actionLabel}](${url})`,
+        url,
+        color: style.color,
+        footer: { text: `ClaimStriker • ${style.label}` },
+        timestamp: notification.createdAt.toISOString(),
+      },
+    ],
+  };
+}
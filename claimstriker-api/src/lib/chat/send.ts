@@ -0,0 +1,38 @@
+import type { ChatProvider } from '@prisma/client';
+import { formatDiscordMessage, formatSlackMessage, type ChatNotification } from './format.js';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const WEBHOOK_URL_PATTERNS: Record<ChatProvider, RegExp> = {
+  SLACK: /^https:\/\/hooks\.slack\.com\/services\//,
+  DISCORD: /^https:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/api\/webhooks\//,
+};
+
+export function isValidChatWebhookUrl(provider: ChatProvider, url: string): boolean {
+  return WEBHOOK_URL_PATTERNS[provider].test(url);
+}
+
+/**
+ * Post a notification to a Slack or Discord incoming webhook.
+ * Throws with the provider's response when delivery fails.
+ */
+export async function sendChatNotification(
+  provider: ChatProvider,
+  webhookUrl: string,
+  notification: ChatNotification
+): Promise<void> {
+  const body =
+    provider === 'SLACK' ? formatSlackMessage(notification) : formatDiscordMessage(notification);
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${provider} responded with ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
@@ -0,0 +1,93 @@
+import type { RiskLevel } from '@prisma/client';
+
+export interface ClaimantRiskInput {
+  totalClaims: number;
+  totalDisputes: number;
+  totalOverturned: number;
+  totalUpheld: number;
+}
+
+export interface ClaimantRiskAssessment {
+  disputeRate: number | null;
+  overturnRate: number | null;
+  riskLevel: RiskLevel;
+  riskExplanation: string;
+}
+
+// Below this many resolved disputes the overturn rate is too noisy to act on
+export const MIN_RESOLVED_DISPUTES = 3;
+
+export const HIGH_OVERTURN_RATE = 0.5;
+export const MEDIUM_OVERTURN_RATE = 0.25;
+export const MEDIUM_DISPUTE_RATE = 0.3;
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Score a claimant from its dispute history.
+ *
+ * - disputeRate  = disputes / claims
+ * - overturnRate = overturned / resolved disputes (overturned + upheld)
+ *
+ * Rules, evaluated in order:
+ * 1. Fewer than MIN_RESOLVED_DISPUTES resolved disputes: LOW unless the dispute rate
+ *    is already at or above MEDIUM_DISPUTE_RATE (then MEDIUM), since there is not
+ *    enough evidence either way.
+ * 2. overturnRate >= HIGH_OVERTURN_RATE: HIGH - most challenged claims do not hold up.
+ * 3. overturnRate >= MEDIUM_OVERTURN_RATE or disputeRate >= MEDIUM_DISPUTE_RATE: MEDIUM.
+ * 4. Otherwise LOW.
+ */
+export function assessClaimantRisk(input: ClaimantRiskInput): ClaimantRiskAssessment {
+  const resolved = input.totalOverturned + input.totalUpheld;
+
+  const disputeRate = input.totalClaims > 0 ? input.totalDisputes / input.totalClaims : null;
+  const overturnRate = resolved > 0 ? input.totalOverturned / resolved : null;
+
+  const disputedOften = disputeRate !== null && disputeRate >= MEDIUM_DISPUTE_RATE;
+
+  if (resolved < MIN_RESOLVED_DISPUTES || overturnRate === null) {
+    return {
+      disputeRate,
+      overturnRate,
+      riskLevel: disputedOften ? 'MEDIUM' : 'LOW',
+      riskExplanation: disputedOften
+        ? `Creators dispute ${percent(disputeRate!)} of this claimant's claims, ` +
+          `but only ${resolved} dispute${resolved === 1 ? ' has' : 's have'} been resolved so far.`
+        : `Not enough dispute history yet (${resolved} resolved) to judge this claimant.`,
+    };
+  }
+
+  if (overturnRate >= HIGH_OVERTURN_RATE) {
+    return {
+      disputeRate,
+      overturnRate,
+      riskLevel: 'HIGH',
+      riskExplanation:
+        `${percent(overturnRate)} of ${resolved} resolved disputes against this claimant were overturned. ` +
+        'Its claims are frequently invalid, so a well-founded dispute has a good chance of success.',
+    };
+  }
+
+  if (overturnRate >= MEDIUM_OVERTURN_RATE || disputedOften) {
+    return {
+      disputeRate,
+      overturnRate,
+      riskLevel: 'MEDIUM',
+      riskExplanation:
+        `${percent(overturnRate)} of ${resolved} resolved disputes were overturned` +
+        `${disputeRate !== null ? ` and ${percent(disputeRate)} of claims are disputed` : ''}. ` +
+        'Mixed history: review each claim carefully before disputing.',
+    };
+  }
+
+  return {
+    disputeRate,
+    overturnRate,
+    riskLevel: 'LOW',
+    riskExplanation:
+      `Only ${percent(overturnRate)} of ${resolved} resolved disputes were overturned. ` +
+      'This claimant is likely a legitimate rights holder.',
+  };
+}
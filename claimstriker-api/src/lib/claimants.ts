@@ -0,0 +1,54 @@
+import type { Claimant, ClaimantType } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+/**
+ * Normalize a claimant name so the same rights holder matches across sources
+ * (lowercase, trimmed, company suffixes and punctuation removed).
+ */
+export function normalizeClaimantName(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/\s+(inc\.?|llc\.?|ltd\.?|corp\.?|corporation|limited)$/i, '')
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the claimant by normalized name or create it.
+ * The type is only applied when the claimant is created.
+ */
+export async function findOrCreateClaimant(
+  name: string,
+  type: ClaimantType = 'UNKNOWN'
+): Promise<Claimant> {
+  const nameNormalized = normalizeClaimantName(name);
+
+  return prisma.claimant.upsert({
+    where: { nameNormalized },
+    create: {
+      name: name.trim(),
+      nameNormalized,
+      type,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Count a newly recorded claim against the claimant.
+ * The statistics worker recalculates the full totals on its next run.
+ */
+export async function incrementClaimantClaims(claimantId: string): Promise<void> {
+  await prisma.claimantStatistics.upsert({
+    where: { claimantId },
+    create: {
+      claimantId,
+      totalClaims: 1,
+    },
+    update: {
+      totalClaims: { increment: 1 },
+    },
+  });
+}
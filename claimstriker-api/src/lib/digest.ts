@@ -0,0 +1,156 @@
+import type { NotificationDelivery, NotificationType } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export interface WeeklySummary {
+  periodStart: string;
+  periodEnd: string;
+  newClaims: number;
+  newStrikes: number;
+  monetizationChanges: number; // includes region restrictions
+  resolvedEvents: number;
+  disputes: {
+    submitted: number;
+    won: number;
+    lost: number;
+  };
+  topClaimants: Array<{
+    id: string;
+    name: string;
+    count: number;
+  }>;
+}
+
+const TOP_CLAIMANTS = 5;
+
+/**
+ * Collect a user's copyright activity for the period.
+ * Sections whose notification type the user turned off are left at zero.
+ */
+export async function buildWeeklySummary(
+  userId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  delivery: Record<NotificationType, NotificationDelivery>
+): Promise<WeeklySummary> {
+  const ownEvents = { video: { channel: { userId } } };
+  const detectedInPeriod = { gte: periodStart, lt: periodEnd };
+  const enabled = (type: NotificationType) => delivery[type] !== 'OFF';
+
+  const [eventCounts, newStrikes, resolvedEvents, submitted, outcomes, claimantCounts] =
+    await Promise.all([
+      prisma.copyrightEvent.groupBy({
+        by: ['type'],
+        where: { ...ownEvents, detectedAt: detectedInPeriod },
+        _count: true,
+      }),
+      // Strikes without a video have no STRIKE event, so count the strikes themselves
+      prisma.copyrightStrike.count({
+        where: { channel: { userId }, issuedAt: detectedInPeriod },
+      }),
+      prisma.copyrightEvent.count({
+        where: {
+          ...ownEvents,
+          status: { in: ['RESOLVED', 'WITHDRAWN', 'EXPIRED'] },
+          resolvedAt: detectedInPeriod,
+        },
+      }),
+      prisma.dispute.count({
+        where: { userId, submittedAt: detectedInPeriod },
+      }),
+      prisma.dispute.groupBy({
+        by: ['status'],
+        where: {
+          userId,
+          status: { in: ['WON', 'LOST'] },
+          resolvedAt: detectedInPeriod,
+        },
+        _count: true,
+      }),
+      prisma.copyrightEvent.groupBy({
+        by: ['claimantId'],
+        where: {
+          ...ownEvents,
+          detectedAt: detectedInPeriod,
+          claimantId: { not: null },
+        },
+        _count: { claimantId: true },
+        orderBy: { _count: { claimantId: 'desc' } },
+        take: TOP_CLAIMANTS,
+      }),
+    ]);
+
+  const countOf = (type: string) => eventCounts.find((row) => row.type === type)?._count || 0;
+  const outcomeOf = (status: string) => outcomes.find((row) => row.status === status)?._count || 0;
+
+  const claimants = await prisma.claimant.findMany({
+    where: { id: { in: claimantCounts.map((row) => row.claimantId!) } },
+    select: { id: true, name: true },
+  });
+  const claimantNames = new Map(claimants.map((c) => [c.id, c.name]));
+
+  return {
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    newClaims: enabled('NEW_CLAIM') ? countOf('CLAIM') : 0,
+    newStrikes: enabled('NEW_STRIKE') ? newStrikes : 0,
+    monetizationChanges: enabled('MONETIZATION_CHANGE')
+      ? countOf('MONETIZATION_CHANGE') + countOf('REGION_RESTRICTION')
+      : 0,
+    resolvedEvents,
+    disputes: enabled('DISPUTE_UPDATE')
+      ? { submitted, won: outcomeOf('WON'), lost: outcomeOf('LOST') }
+      : { submitted: 0, won: 0, lost: 0 },
+    topClaimants: enabled('NEW_CLAIM')
+      ? claimantCounts.map((row) => ({
+          id: row.claimantId!,
+          name: claimantNames.get(row.claimantId!) || 'Unknown',
+          count: row._count.claimantId,
+        }))
+      : [],
+  };
+}
+
+export function isEmptySummary(summary: WeeklySummary): boolean {
+  return (
+    summary.newClaims === 0 &&
+    summary.newStrikes === 0 &&
+    summary.monetizationChanges === 0 &&
+    summary.resolvedEvents === 0 &&
+    summary.disputes.submitted === 0 &&
+    summary.disputes.won === 0 &&
+    summary.disputes.lost === 0
+  );
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * One-paragraph text version of the summary, used as the notification message.
+ */
+export function formatSummaryMessage(summary: WeeklySummary): string {
+  const parts = [
+    plural(summary.newClaims, 'new claim'),
+    plural(summary.newStrikes, 'new strike'),
+    plural(summary.monetizationChanges, 'monetization or region change'),
+    plural(summary.resolvedEvents, 'resolved event'),
+  ];
+
+  const sentences = [`This week: ${parts.join(', ')}.`];
+
+  const { submitted, won, lost } = summary.disputes;
+  if (submitted + won + lost > 0) {
+    sentences.push(`Disputes: ${submitted} submitted, ${won} won, ${lost} lost.`);
+  }
+
+  if (summary.topClaimants.length > 0) {
+    sentences.push(
+      `Top claimants: ${summary.topClaimants
+        .map((c) => `${c.name} (${c.count})`)
+        .join(', ')}.`
+    );
+  }
+
+  return sentences.join(' ');
+}
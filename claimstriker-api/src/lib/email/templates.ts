@@ -0,0 +1,262 @@
+import type { NotificationType } from '@prisma/client';
+import { env } from '../../config/env.js';
+import type { WeeklySummary } from '../digest.js';
+
+export interface NotificationEmailInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: unknown; // Notification.data, e.g. a WeeklySummary
+  recipientName?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface TemplateConfig {
+  color: string;
+  intro: string;
+  actionLabel: string;
+  actionPath: string;
+}
+
+const TEMPLATES: Record<NotificationType, TemplateConfig> = {
+  NEW_CLAIM: {
+    color: '#f59e0b',
+    intro: 'A new copyright claim was detected on one of your videos.',
+    actionLabel: 'Review claims',
+    actionPath: '/events',
+  },
+  NEW_STRIKE: {
+    color: '#ef4444',
+    intro: 'Your channel received a copyright strike. Strikes can restrict uploads, so act quickly.',
+    actionLabel: 'Review strike',
+    actionPath: '/events',
+  },
+  MONETIZATION_CHANGE: {
+    color: '#3b82f6',
+    intro: 'The monetization or visibility of one of your videos changed.',
+    actionLabel: 'View changes',
+    actionPath: '/events',
+  },
+  DISPUTE_UPDATE: {
+    color: '#10b981',
+    intro: 'There is an update on one of your disputes.',
+    actionLabel: 'View dispute',
+    actionPath: '/events',
+  },
+  SYNC_ERROR: {
+    color: '#6b7280',
+    intro: 'We could not sync one of your channels.',
+    actionLabel: 'Check channels',
+    actionPath: '/channels',
+  },
+  WEEKLY_SUMMARY: {
+    color: '#8b5cf6',
+    intro: 'Here is your weekly copyright summary.',
+    actionLabel: 'Open dashboard',
+    actionPath: '/dashboard',
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function summaryRows(summary: WeeklySummary): Array<[string, number]> {
+  return [
+    ['New claims', summary.newClaims],
+    ['New strikes', summary.newStrikes],
+    ['Monetization & region changes', summary.monetizationChanges],
+    ['Resolved events', summary.resolvedEvents],
+    ['Disputes submitted', summary.disputes.submitted],
+    ['Disputes won', summary.disputes.won],
+    ['Disputes lost', summary.disputes.lost],
+  ];
+}
+
+function renderSummaryText(summary: WeeklySummary): string {
+  const lines = summaryRows(summary).map(([label, value]) => `- ${label}: ${value}`);
+
+  if (summary.topClaimants.length > 0) {
+    lines.push('', 'Top claimants:');
+    lines.push(...summary.topClaimants.map((c) => `- ${c.name}: ${c.count}`));
+  }
+
+  return lines.join('\n');
+}
+
+function renderSummaryHtml(summary: WeeklySummary): string {
+  const rows = summaryRows(summary)
+    .map(
+      ([label, value]) => `
+            <tr>
+              <td style="padding: 6px 0; color: #6b7280;">${label}</td>
+              <td style="padding: 6px 0; text-align: right; font-weight: 600;">${value}</td>
+            </tr>`
+    )
+    .join('');
+
+  const claimants =
+    summary.topClaimants.length > 0
+      ? `
+          <p style="margin: 16px 0 8px 0; font-weight: 600;">Top claimants</p>
+          <ol style="margin: 0 0 16px 0; padding-left: 20px;">
+            ${summary.topClaimants
+              .map((c) => `<li>${escapeHtml(c.name)} (${c.count})</li>`)
+              .join('')}
+          </ol>`
+      : '';
+
+  return `
+          <table style="width: 100%; border-collapse: collapse; margin: 0 0 16px 0;">${rows}
+          </table>${claimants}`;
+}
+
+/**
+ * Shared HTML shell: colored header, body, a call-to-action button and a footer line.
+ */
+function renderLayout(options: {
+  color: string;
+  title: string;
+  body: string; // Already escaped HTML
+  action: { label: string; url: string };
+  footer: string;
+}): string {
+  const { color } = options;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: linear-gradient(135deg, ${color}, ${color}dd); padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">${escapeHtml(options.title)}</h1>
+        </div>
+        <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">${options.body}
+          <a href="${options.action.url}" style="display: inline-block; background: ${color}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">
+            ${escapeHtml(options.action.label)}
+          </a>
+        </div>
+        <p style="color: #6b7280; font-size: 12px; margin-top: 16px;">
+          ${escapeHtml(options.footer)}
+        </p>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Render the HTML and plain-text versions of a notification email.
+ */
+export function renderNotificationEmail(input: NotificationEmailInput): RenderedEmail {
+  const template = TEMPLATES[input.type];
+  const actionUrl = `${env.FRONTEND_URL}${template.actionPath}`;
+  const greeting = input.recipientName ? `Hi ${input.recipientName},` : 'Hi,';
+  const summary =
+    input.type === 'WEEKLY_SUMMARY' && input.data ? (input.data as WeeklySummary) : null;
+
+  const text = [
+    greeting,
+    '',
+    template.intro,
+    '',
+    input.title,
+    summary ? renderSummaryText(summary) : input.message,
+    '',
+    `${template.actionLabel}: ${actionUrl}`,
+    '',
+    "You're receiving this because you have notifications enabled for your ClaimStriker account.",
+  ].join('\n');
+
+  const html = renderLayout({
+    color: template.color,
+    title: input.title,
+    body: `
+          <p style="margin: 0 0 8px 0;">${escapeHtml(greeting)}</p>
+          <p style="margin: 0 0 16px 0; color: #6b7280;">${escapeHtml(template.intro)}</p>
+          ${summary ? renderSummaryHtml(summary) : `<p style="margin: 0 0 16px 0;">${escapeHtml(input.message)}</p>`}`,
+    action: { label: template.actionLabel, url: actionUrl },
+    footer: "You're receiving this because you have notifications enabled for your ClaimStriker account.",
+  });
+
+  return {
+    subject: `[ClaimStriker] ${input.title}`,
+    text,
+    html,
+  };
+}
+
+export type AccountEmailType = 'verify-email' | 'reset-password';
+
+export interface AccountEmailInput {
+  type: AccountEmailType;
+  token: string;
+  recipientName?: string | null;
+}
+
+const ACCOUNT_TEMPLATES: Record<
+  AccountEmailType,
+  { title: string; intro: string; actionLabel: string; actionPath: string; footer: string }
+> = {
+  'verify-email': {
+    title: 'Confirm your email address',
+    intro: 'Confirm this is your email address to receive claim alerts from ClaimStriker. The link expires in 24 hours.',
+    actionLabel: 'Confirm email',
+    actionPath: '/verify-email',
+    footer: "If you didn't create a ClaimStriker account, you can ignore this email.",
+  },
+  'reset-password': {
+    title: 'Reset your password',
+    intro: 'Someone asked to reset the password for your ClaimStriker account. The link expires in 1 hour and can be used once.',
+    actionLabel: 'Choose a new password',
+    actionPath: '/reset-password',
+    footer: "If you didn't ask for this, you can ignore this email; your password stays the same.",
+  },
+};
+
+/**
+ * Render an email with a single-use account link (email verification or password reset).
+ */
+export function renderAccountEmail(input: AccountEmailInput): RenderedEmail {
+  const template = ACCOUNT_TEMPLATES[input.type];
+  const actionUrl = `${env.FRONTEND_URL}${template.actionPath}?token=${encodeURIComponent(input.token)}`;
+  const greeting = input.recipientName ? `Hi ${input.recipientName},` : 'Hi,';
+
+  const text = [
+    greeting,
+    '',
+    template.intro,
+    '',
+    `${template.actionLabel}: ${actionUrl}`,
+    '',
+    template.footer,
+  ].join('\n');
+
+  const html = renderLayout({
+    color: '#3b82f6',
+    title: template.title,
+    body: `
+          <p style="margin: 0 0 8px 0;">${escapeHtml(greeting)}</p>
+          <p style="margin: 0 0 16px 0;">${escapeHtml(template.intro)}</p>`,
+    action: { label: template.actionLabel, url: actionUrl },
+    footer: template.footer,
+  });
+
+  return {
+    subject: `[ClaimStriker] ${template.title}`,
+    text,
+    html,
+  };
+}
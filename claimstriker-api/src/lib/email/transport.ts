@@ -0,0 +1,163 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import { env } from '../../config/env.js';
+
+export type EmailTransportName = 'sendgrid' | 'smtp' | 'file' | 'memory' | 'console';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface MemoryEmailTransport extends EmailTransport {
+  sent: Array<EmailMessage & { from: string; sentAt: Date }>;
+}
+
+const DEFAULT_FROM = 'noreply@claimstriker.com';
+
+function createSendGridTransport(apiKey: string, from: string): EmailTransport {
+  return {
+    name: 'sendgrid',
+    async send(message) {
+      const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: from, name: 'ClaimStriker' },
+          subject: message.subject,
+          content: [
+            { type: 'text/plain', value: message.text },
+            { type: 'text/html', value: message.html },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`SendGrid responded with ${response.status}: ${body}`);
+      }
+    },
+  };
+}
+
+function createSmtpTransport(from: string): EmailTransport {
+  if (!env.SMTP_HOST) {
+    throw new Error('EMAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: `ClaimStriker <${from}>`,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+}
+
+/**
+ * Writes each email to a JSON file so messages can be inspected during local development.
+ */
+export function createFileTransport(dir: string, from = DEFAULT_FROM): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^\w.@-]/g, '_');
+      const file = path.join(dir, `${Date.now()}-${safeRecipient}.json`);
+      await writeFile(
+        file,
+        JSON.stringify({ from, ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+/**
+ * Keeps sent emails in memory; intended for tests.
+ */
+export function createMemoryTransport(from = DEFAULT_FROM): MemoryEmailTransport {
+  const sent: MemoryEmailTransport['sent'] = [];
+
+  return {
+    name: 'memory',
+    sent,
+    async send(message) {
+      sent.push({ ...message, from, sentAt: new Date() });
+    },
+  };
+}
+
+function createConsoleTransport(from: string): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[Email] ${from} -> ${message.to}`);
+      console.log(`  Subject: ${message.subject}`);
+      console.log(`  Body: ${message.text}`);
+    },
+  };
+}
+
+let cachedTransport: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport.
+ * EMAIL_TRANSPORT selects one explicitly; otherwise SendGrid is used when an API key is set,
+ * then SMTP when a host is set, falling back to logging emails to the console.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (cachedTransport) {
+    return cachedTransport;
+  }
+
+  const from = env.EMAIL_FROM || DEFAULT_FROM;
+  const requested = env.EMAIL_TRANSPORT;
+
+  if (requested === 'sendgrid' || (!requested && env.SENDGRID_API_KEY)) {
+    if (!env.SENDGRID_API_KEY) {
+      throw new Error('EMAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is not set');
+    }
+    cachedTransport = createSendGridTransport(env.SENDGRID_API_KEY, from);
+  } else if (requested === 'smtp' || (!requested && env.SMTP_HOST)) {
+    cachedTransport = createSmtpTransport(from);
+  } else if (requested === 'file') {
+    cachedTransport = createFileTransport(env.EMAIL_FILE_DIR, from);
+  } else if (requested === 'memory') {
+    cachedTransport = createMemoryTransport(from);
+  } else {
+    cachedTransport = createConsoleTransport(from);
+  }
+
+  return cachedTransport;
+}
+
+/**
+ * Replace the active transport, e.g. with a memory transport in tests.
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  cachedTransport = transport;
+}
@@ -1,30 +1,88 @@
 import crypto from 'crypto';
-import { env } from '../config/env.js';
+import { DEFAULT_ENCRYPTION_KEY_ID, env } from '../config/env.js';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
 
-function getKey(): Buffer {
-  return Buffer.from(env.ENCRYPTION_KEY, 'hex');
+// Versioned values are `v2:<keyId>:iv:authTag:encrypted`; older values are
+// `iv:authTag:encrypted` and were always written with ENCRYPTION_KEY.
+const VERSION = 'v2';
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyRing: KeyRing | null = null;
+
+/**
+ * ENCRYPTION_KEY under the id "default", plus any keys from ENCRYPTION_KEYS.
+ * New values are encrypted with ENCRYPTION_ACTIVE_KEY_ID; the rest only decrypt.
+ */
+function getKeyRing(): KeyRing {
+  if (keyRing) {
+    return keyRing;
+  }
+
+  // The env schema already checked the keys and that the active one exists
+  const keys = new Map<string, Buffer>();
+  if (env.ENCRYPTION_KEY) {
+    keys.set(DEFAULT_ENCRYPTION_KEY_ID, Buffer.from(env.ENCRYPTION_KEY, 'hex'));
+  }
+  for (const [keyId, hex] of Object.entries(env.ENCRYPTION_KEYS ?? {})) {
+    keys.set(keyId, Buffer.from(hex, 'hex'));
+  }
+
+  keyRing = { activeKeyId: env.ENCRYPTION_ACTIVE_KEY_ID || DEFAULT_ENCRYPTION_KEY_ID, keys };
+  return keyRing;
+}
+
+function getKey(keyId: string): Buffer {
+  const key = getKeyRing().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown encryption key "${keyId}"`);
+  }
+  return key;
+}
+
+export function getActiveKeyId(): string {
+  return getKeyRing().activeKeyId;
+}
+
+export function getKeyIds(): string[] {
+  return Array.from(getKeyRing().keys.keys());
+}
+
+// Prefix of every value encrypted with the active key
+export function getActiveKeyPrefix(): string {
+  return `${VERSION}:${getActiveKeyId()}:`;
 }
 
 export function encrypt(text: string): string {
+  const keyId = getActiveKeyId();
   const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(keyId), iv);
 
   let encrypted = cipher.update(text, 'utf8', 'hex');
   encrypted += cipher.final('hex');
 
   const authTag = cipher.getAuthTag();
 
-  // Format: iv:authTag:encrypted
-  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+  // Format: v2:keyId:iv:authTag:encrypted
+  return `${VERSION}:${keyId}:${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
 }
 
 export function decrypt(encryptedText: string): string {
   const parts = encryptedText.split(':');
-  if (parts.length !== 3) {
+
+  let keyId: string;
+  if (parts.length === 5 && parts[0] === VERSION) {
+    keyId = parts[1];
+    parts.splice(0, 2);
+  } else if (parts.length === 3) {
+    keyId = DEFAULT_ENCRYPTION_KEY_ID;
+  } else {
     throw new Error('Invalid encrypted text format');
   }
 
@@ -32,7 +90,11 @@ export function decrypt(encryptedText: string): string {
   const iv = Buffer.from(ivHex, 'hex');
   const authTag = Buffer.from(authTagHex, 'hex');
 
-  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  if (authTag.length !== AUTH_TAG_LENGTH) {
+    throw new Error('Invalid encrypted text format');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(keyId), iv);
   decipher.setAuthTag(authTag);
 
   let decrypted = decipher.update(encrypted, 'hex', 'utf8');
@@ -41,6 +103,13 @@ export function decrypt(encryptedText: string): string {
   return decrypted;
 }
 
+/**
+ * Re-encrypt a stored value with the active key.
+ */
+export function reEncrypt(encryptedText: string): string {
+  return encrypt(decrypt(encryptedText));
+}
+
 // Helper to hash passwords (not for tokens)
 export async function hashPassword(password: string): Promise<string> {
   const bcrypt = await import('bcryptjs');
@@ -0,0 +1,118 @@
+import type {
+  NotificationDelivery,
+  NotificationSettings,
+  NotificationType,
+} from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+/**
+ * Delivery used for types the user hasn't configured.
+ * Strikes and claims are worth an email; noisier changes stay in-app.
+ */
+export const DEFAULT_DELIVERY: Record<NotificationType, NotificationDelivery> = {
+  NEW_CLAIM: 'EMAIL',
+  NEW_STRIKE: 'EMAIL',
+  MONETIZATION_CHANGE: 'IN_APP',
+  DISPUTE_UPDATE: 'EMAIL',
+  SYNC_ERROR: 'IN_APP',
+  WEEKLY_SUMMARY: 'EMAIL',
+};
+
+// Types the weekly summary doesn't cover (or is), so they can't be digest-only
+export const NO_DIGEST_TYPES: NotificationType[] = ['SYNC_ERROR', 'WEEKLY_SUMMARY'];
+
+// Strikes can lead to channel termination, so they are never held back
+const QUIET_HOURS_EXEMPT: NotificationType[] = ['NEW_STRIKE'];
+
+type QuietHours = Pick<
+  NotificationSettings,
+  'quietHoursEnabled' | 'quietHoursStart' | 'quietHoursEnd' | 'timezone'
+>;
+
+export async function getDeliveryMode(
+  userId: string,
+  type: NotificationType
+): Promise<NotificationDelivery> {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_type: { userId, type } },
+    select: { delivery: true },
+  });
+
+  return preference?.delivery ?? DEFAULT_DELIVERY[type];
+}
+
+/**
+ * Effective delivery for every notification type, filling in defaults.
+ */
+export async function getAllDeliveryModes(
+  userId: string
+): Promise<Record<NotificationType, NotificationDelivery>> {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId },
+    select: { type: true, delivery: true },
+  });
+
+  return preferences.reduce(
+    (acc, pref) => ({ ...acc, [pref.type]: pref.delivery }),
+    { ...DEFAULT_DELIVERY }
+  );
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since local midnight in the given timezone
+function localMinutes(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value || 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value || 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Milliseconds until quiet hours end, or 0 when an email can be sent now.
+ * Handles windows that wrap past midnight (e.g. 22:00-08:00).
+ */
+export function getQuietHoursDelay(
+  settings: QuietHours | null,
+  type: NotificationType,
+  now = new Date()
+): number {
+  if (!settings?.quietHoursEnabled || QUIET_HOURS_EXEMPT.includes(type)) {
+    return 0;
+  }
+
+  const start = parseTimeOfDay(settings.quietHoursStart);
+  const end = parseTimeOfDay(settings.quietHoursEnd);
+  if (start === end) {
+    return 0;
+  }
+
+  const current = localMinutes(now, isValidTimezone(settings.timezone) ? settings.timezone : 'UTC');
+  const inQuietHours =
+    start < end ? current >= start && current < end : current >= start || current < end;
+
+  if (!inQuietHours) {
+    return 0;
+  }
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  return (minutesLeft * 60 - now.getUTCSeconds()) * 1000;
+}
@@ -0,0 +1,33 @@
+import { redis } from '../config/redis.js';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window rate limit: at most `limit` calls per `windowSeconds` for a key.
+ */
+export async function checkRateLimit(
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RateLimitResult> {
+  const redisKey = `rate-limit:${key}`;
+  const count = await redis.incr(redisKey);
+
+  if (count === 1) {
+    await redis.expire(redisKey, windowSeconds);
+  }
+
+  if (count <= limit) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  const ttl = await redis.ttl(redisKey);
+  // A missing expiry (e.g. the EXPIRE after INCR never ran) would block the key forever
+  if (ttl < 0) {
+    await redis.expire(redisKey, windowSeconds);
+  }
+  return { allowed: false, retryAfterSeconds: ttl > 0 ? ttl : windowSeconds };
+}
@@ -0,0 +1,73 @@
+import { prisma } from '../config/database.js';
+import { getRpmTable } from '../config/rpm.js';
+import { REVENUE_ACTIONS, type RegionActions } from './youtube/policy.js';
+
+/**
+ * Revenue the creator loses per 1,000 views of the video, weighting each
+ * territory the claim takes revenue in by its RPM and typical view share.
+ */
+export function getAtRiskRpm(regions: RegionActions): number {
+  const table = getRpmTable();
+  const takesRevenue = (action: string | null) => !!action && REVENUE_ACTIONS.includes(action);
+
+  const defaultAtRisk = takesRevenue(regions.default);
+  let total = defaultAtRisk ? table.blendedRpm : 0;
+
+  // Listed countries differ from the default, so adjust the blended figure by their share
+  for (const [country, action] of Object.entries(regions.territories)) {
+    if (takesRevenue(action) === defaultAtRisk) {
+      continue;
+    }
+    const share = table.rpm(country) * table.viewShare(country);
+    total += defaultAtRisk ? -share : share;
+  }
+
+  return Math.round(Math.min(Math.max(total, 0), table.blendedRpm) * 10000) / 10000;
+}
+
+/**
+ * Estimated revenue at risk in USD for an event, from the video's current view count.
+ */
+export function estimateRevenueAtRisk(
+  viewCount: number | null | undefined,
+  atRiskRpm: number | null | undefined
+): number | null {
+  if (atRiskRpm === null || atRiskRpm === undefined) {
+    return null;
+  }
+
+  return Math.round(((viewCount || 0) / 1000) * atRiskRpm * 100) / 100;
+}
+
+/**
+ * Total estimated revenue at risk from each channel's open events.
+ */
+export async function getChannelRevenueAtRisk(
+  channelIds: string[]
+): Promise<Map<string, number>> {
+  const events = await prisma.copyrightEvent.findMany({
+    where: {
+      video: { channelId: { in: channelIds } },
+      status: { in: ['ACTIVE', 'DISPUTED'] },
+      atRiskRpm: { gt: 0 },
+    },
+    select: {
+      atRiskRpm: true,
+      video: { select: { channelId: true, viewCount: true } },
+    },
+  });
+
+  const totals = new Map(channelIds.map((id) => [id, 0]));
+
+  for (const event of events) {
+    const estimate = estimateRevenueAtRisk(event.video.viewCount, event.atRiskRpm) || 0;
+    totals.set(event.video.channelId, (totals.get(event.video.channelId) || 0) + estimate);
+  }
+
+  // Round once more so floating point sums stay in cents
+  for (const [id, total] of totals) {
+    totals.set(id, Math.round(total * 100) / 100);
+  }
+
+  return totals;
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+
+// Access tokens are short-lived; the refresh token cookie keeps the user signed in
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const REFRESH_COOKIE = 'refresh_token';
+
+// Two tabs refreshing at once both send the same token; the slower one is let through
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const REVOKED_KEY_PREFIX = 'revoked-session:';
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+function hashToken(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function newSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a session for a signed-in user. Returns the refresh token, `<sessionId>.<secret>`.
+ */
+export async function createSession(
+  userId: string,
+  client: ClientInfo
+): Promise<{ sessionId: string; refreshToken: string }> {
+  // Sessions that can no longer be used are only clutter in the session list
+  await prisma.session.deleteMany({
+    where: { userId, OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }] },
+  });
+
+  const secret = newSecret();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(secret),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+    },
+  });
+
+  return { sessionId: session.id, refreshToken: `${session.id}.${secret}` };
+}
+
+/**
+ * Exchange a refresh token for a new one. `refreshToken` is null when a concurrent
+ * request already rotated it, so the caller should leave the cookie alone.
+ * Returns null for unknown, expired or revoked sessions. Presenting a token that was
+ * rotated away earlier means it leaked, so the whole session is revoked.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  client: ClientInfo
+): Promise<{ sessionId: string; userId: string; refreshToken: string | null } | null> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  const tokenHash = hashToken(secret);
+  const now = new Date();
+
+  if (tokenHash === session.refreshTokenHash) {
+    const nextSecret = newSecret();
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, refreshTokenHash: tokenHash },
+      data: {
+        refreshTokenHash: hashToken(nextSecret),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+      },
+    });
+
+    return {
+      sessionId,
+      userId: session.userId,
+      // Lost the race to another request with the same token
+      refreshToken: count > 0 ? `${sessionId}.${nextSecret}` : null,
+    };
+  }
+
+  if (
+    tokenHash === session.previousTokenHash &&
+    session.rotatedAt &&
+    now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+  ) {
+    return { sessionId, userId: session.userId, refreshToken: null };
+  }
+
+  console.warn(`[Sessions] Refresh token reused for session ${sessionId}, revoking it`);
+  await revokeSession(sessionId);
+  return null;
+}
+
+/**
+ * Revoke a session. Its refresh token stops working at once, and Redis remembers the
+ * revocation until the access tokens already issued for it have expired.
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await redis.set(`${REVOKED_KEY_PREFIX}${sessionId}`, '1', 'EX', ACCESS_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping the current one.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  { except }: { except?: string } = {}
+): Promise<number> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, revokedAt: null, ...(except && { id: { not: except } }) },
+    select: { id: true },
+  });
+
+  for (const session of sessions) {
+    await revokeSession(session.id);
+  }
+
+  return sessions.length;
+}
+
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  return (await redis.exists(`${REVOKED_KEY_PREFIX}${sessionId}`)) > 0;
+}
@@ -0,0 +1,83 @@
+import type { CopyrightStrike, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export const STRIKE_DURATION_DAYS = 90;
+export const URGENT_STRIKE_COUNT = 2;
+export const TERMINATION_STRIKE_COUNT = 3;
+
+export type ChannelStanding = 'GOOD_STANDING' | 'WARNING' | 'AT_RISK' | 'TERMINATION';
+
+export interface StrikeStanding {
+  activeStrikes: number;
+  standing: ChannelStanding;
+  nextExpiryAt: Date | null; // When the oldest active strike can expire
+}
+
+export function getStrikeExpiry(issuedAt: Date): Date {
+  return new Date(issuedAt.getTime() + STRIKE_DURATION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Strikes only expire once Copyright School is done, so an overdue course keeps them active.
+ */
+export function activeStrikeWhere(now = new Date()): Prisma.CopyrightStrikeWhereInput {
+  return {
+    status: 'ACTIVE',
+    OR: [{ expiresAt: { gt: now } }, { courseCompletedAt: null }],
+  };
+}
+
+export function isStrikeActive(
+  strike: Pick<CopyrightStrike, 'status' | 'expiresAt' | 'courseCompletedAt'>,
+  now = new Date()
+): boolean {
+  return strike.status === 'ACTIVE' && (strike.expiresAt > now || !strike.courseCompletedAt);
+}
+
+export function getChannelStanding(activeStrikes: number): ChannelStanding {
+  if (activeStrikes >= TERMINATION_STRIKE_COUNT) return 'TERMINATION';
+  if (activeStrikes >= URGENT_STRIKE_COUNT) return 'AT_RISK';
+  if (activeStrikes > 0) return 'WARNING';
+  return 'GOOD_STANDING';
+}
+
+/**
+ * Active strike count and standing for each channel (channels without strikes included).
+ */
+export async function getStrikeStandings(
+  channelIds: string[]
+): Promise<Map<string, StrikeStanding>> {
+  const strikes = await prisma.copyrightStrike.findMany({
+    where: { channelId: { in: channelIds }, ...activeStrikeWhere() },
+    select: { channelId: true, expiresAt: true },
+    orderBy: { expiresAt: 'asc' },
+  });
+
+  return new Map(
+    channelIds.map((channelId) => {
+      const channelStrikes = strikes.filter((s) => s.channelId === channelId);
+      return [
+        channelId,
+        {
+          activeStrikes: channelStrikes.length,
+          standing: getChannelStanding(channelStrikes.length),
+          nextExpiryAt: channelStrikes[0]?.expiresAt ?? null,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * API shape of a strike with its countdown.
+ */
+export function serializeStrike<T extends CopyrightStrike>(strike: T, now = new Date()) {
+  const msLeft = strike.expiresAt.getTime() - now.getTime();
+
+  return {
+    ...strike,
+    isActive: isStrikeActive(strike, now),
+    daysUntilExpiry: Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000))),
+    courseRequired: !strike.courseCompletedAt,
+  };
+}
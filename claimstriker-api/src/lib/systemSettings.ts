@@ -0,0 +1,44 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export interface SystemSettings {
+  requireTwoFactorForAdmins: boolean;
+}
+
+const DEFAULTS: SystemSettings = {
+  requireTwoFactorForAdmins: false,
+};
+
+/**
+ * Read a setting, falling back to its default when it was never saved.
+ */
+export async function getSystemSetting<K extends keyof SystemSettings>(
+  key: K
+): Promise<SystemSettings[K]> {
+  const setting = await prisma.systemSetting.findUnique({ where: { key } });
+  return setting ? (setting.value as SystemSettings[K]) : DEFAULTS[key];
+}
+
+export async function getSystemSettings(): Promise<SystemSettings> {
+  const settings = await prisma.systemSetting.findMany({
+    where: { key: { in: Object.keys(DEFAULTS) } },
+  });
+
+  return settings.reduce<SystemSettings>(
+    (acc, setting) => ({ ...acc, [setting.key]: setting.value }),
+    { ...DEFAULTS }
+  );
+}
+
+export async function setSystemSetting<K extends keyof SystemSettings>(
+  key: K,
+  value: SystemSettings[K],
+  updatedBy: string
+): Promise<void> {
+  const json = value as Prisma.InputJsonValue;
+  await prisma.systemSetting.upsert({
+    where: { key },
+    create: { key, value: json, updatedBy },
+    update: { value: json, updatedBy },
+  });
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import type { Role } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+import { decrypt } from './encryption.js';
+import { isAdmin } from './permissions.js';
+import { getSystemSetting } from './systemSettings.js';
+import { verifyTotp } from './totp.js';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Between the password and the code step of a login
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const CHALLENGE_KEY_PREFIX = 'login-challenge:';
+
+export type SecondFactor = 'totp' | 'recovery';
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Whether the admin policy requires 2FA for this role.
+ */
+export async function isTwoFactorRequired(role: Role): Promise<boolean> {
+  return isAdmin(role) && (await getSystemSetting('requireTwoFactorForAdmins'));
+}
+
+/**
+ * Replace a user's recovery codes. The plain codes are returned once, to show to the user.
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+/**
+ * Accept a TOTP code from a confirmed secret, at most once per time step.
+ * Returns the matched step, or null.
+ */
+export async function acceptTotpCode(
+  user: { id: string; totpSecret: string | null },
+  code: string
+): Promise<number | null> {
+  if (!user.totpSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(decrypt(user.totpSecret), code);
+  if (step === null) {
+    return null;
+  }
+
+  // Recording the step only if it's newer rejects a replayed code, even from a concurrent request
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+
+  return count > 0 ? step : null;
+}
+
+/**
+ * Check the second step of a sign-in: a code from the authenticator app or an unused
+ * recovery code, which is then used up.
+ */
+export async function verifySecondFactor(
+  user: { id: string; totpSecret: string | null; totpEnabledAt: Date | null },
+  code: string
+): Promise<SecondFactor | null> {
+  if (!user.totpEnabledAt) {
+    return null;
+  }
+
+  if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    return (await acceptTotpCode(user, code)) !== null ? 'totp' : null;
+  }
+
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return count > 0 ? 'recovery' : null;
+}
+
+/**
+ * Remember a user who passed the password step, for the code step that follows.
+ */
+export async function createLoginChallenge(userId: string): Promise<string> {
+  const challengeToken = crypto.randomBytes(32).toString('base64url');
+  await redis.set(`${CHALLENGE_KEY_PREFIX}${challengeToken}`, userId, 'EX', CHALLENGE_TTL_SECONDS);
+  return challengeToken;
+}
+
+export async function getLoginChallenge(challengeToken: string): Promise<string | null> {
+  return redis.get(`${CHALLENGE_KEY_PREFIX}${challengeToken}`);
+}
+
+/**
+ * Count a wrong code; after too many the challenge is dropped and the user must
+ * enter their password again.
+ */
+export async function recordFailedChallenge(challengeToken: string): Promise<void> {
+  const attemptsKey = `${CHALLENGE_KEY_PREFIX}${challengeToken}:attempts`;
+  const attempts = await redis.incr(attemptsKey);
+
+  if (attempts === 1) {
+    await redis.expire(attemptsKey, CHALLENGE_TTL_SECONDS);
+  }
+  if (attempts >= CHALLENGE_MAX_ATTEMPTS) {
+    await clearLoginChallenge(challengeToken);
+  }
+}
+
+export async function clearLoginChallenge(challengeToken: string): Promise<void> {
+  await redis.del(
+    `${CHALLENGE_KEY_PREFIX}${challengeToken}`,
+    `${CHALLENGE_KEY_PREFIX}${challengeToken}:attempts`
+  );
+}
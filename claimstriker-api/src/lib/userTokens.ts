@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import type { UserTokenType } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+const TOKEN_TTL_MS: Record<UserTokenType, number> = {
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+  PASSWORD_RESET: 60 * 60 * 1000,
+};
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a token to email to the user. Earlier unused tokens of the same type stop working,
+ * so only the most recent link is valid.
+ */
+export async function createUserToken(userId: string, type: UserTokenType): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.userToken.deleteMany({ where: { userId, type } }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Use up a token. Returns the user it was issued to, or null if it is unknown,
+ * expired or already used.
+ */
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<string | null> {
+  const tokenHash = hashToken(token);
+
+  // Marking it used in the same statement that checks it keeps two requests from both using it
+  const { count } = await prisma.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true },
+  });
+  return userToken?.userId ?? null;
+}
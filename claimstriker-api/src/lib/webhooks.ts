@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import net from 'net';
+import { env } from '../config/env.js';
+
+/**
+ * Webhook event names, `<copyright event type>.<action>` plus the test ping.
+ */
+export const WEBHOOK_EVENTS = [
+  'claim.created',
+  'claim.updated',
+  'strike.created',
+  'strike.updated',
+  'monetization_change.created',
+  'monetization_change.updated',
+  'region_restriction.created',
+  'region_restriction.updated',
+] as const;
+
+export type WebhookEventName = (typeof WEBHOOK_EVENTS)[number] | 'webhook.test';
+
+export const SIGNATURE_HEADER = 'X-ClaimStriker-Signature';
+export const EVENT_HEADER = 'X-ClaimStriker-Event';
+export const DELIVERY_HEADER = 'X-ClaimStriker-Delivery';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Loopback, private, link-local (incl. cloud metadata), shared and reserved ranges;
+// a webhook must not be able to reach services inside our network
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+export interface WebhookPayload {
+  id: string; // delivery ID, stable across retries
+  event: WebhookEventName;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function webhookEventName(
+  eventType: string,
+  action: 'created' | 'updated'
+): WebhookEventName {
+  return `${eventType.toLowerCase()}.${action}` as WebhookEventName;
+}
+
+/**
+ * Whether an endpoint subscribed to the event (an empty filter means everything).
+ */
+export function endpointAcceptsEvent(eventTypes: string[], event: WebhookEventName): boolean {
+  return event === 'webhook.test' || eventTypes.length === 0 || eventTypes.includes(event);
+}
+
+/**
+ * Sign a payload the way receivers verify it:
+ * HMAC-SHA256 over `<timestamp>.<raw body>`, sent as `t=<timestamp>,v1=<hex digest>`.
+ * Including the timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ranges too
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Why a webhook URL can't be used, or null when it can. Checked when an endpoint is saved
+ * and again before every delivery, since the host's DNS records can change.
+ * WEBHOOK_ALLOW_PRIVATE_URLS lets a local receiver be used in development.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (env.NODE_ENV === 'production') {
+    if (parsed.protocol !== 'https:') {
+      return 'URL must use https';
+    }
+  } else if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'URL must use http or https';
+  }
+
+  if (env.WEBHOOK_ALLOW_PRIVATE_URLS) {
+    return null;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    return 'URL must point to a public address';
+  }
+
+  return null;
+}
+
+/**
+ * POST a signed payload to an endpoint. Never throws; failures are reported in the result.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload
+): Promise<WebhookResponse> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  const urlError = await checkWebhookUrl(url);
+  if (urlError) {
+    return { ok: false, status: null, error: urlError, durationMs: 0 };
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ClaimStriker-Webhooks/1.0',
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, body, timestamp),
+        [EVENT_HEADER]: payload.event,
+        [DELIVERY_HEADER]: payload.id,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+
+    // The body is never kept or shown, so a delivery can't be used to read another service
+    await response.body?.cancel().catch(() => {});
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (error: any) {
+    return {
+      ok: false,
+      status: null,
+      error: error.name === 'TimeoutError' ? 'Request timed out' : error.message,
+      durationMs: Date.now() - started,
+    };
+  }
+}
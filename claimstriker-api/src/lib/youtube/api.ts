@@ -160,6 +160,7 @@ function parseVideoResponse(video: youtube_v3.Schema$Video): YouTubeVideoInfo {
       : undefined,
     privacyStatus: status?.privacyStatus || undefined,
     uploadStatus: status?.uploadStatus || undefined,
+    rejectionReason: status?.rejectionReason || undefined,
     license: status?.license || undefined,
     madeForKids: status?.madeForKids || undefined,
     blockedRegions,
@@ -167,6 +168,11 @@ function parseVideoResponse(video: youtube_v3.Schema$Video): YouTubeVideoInfo {
   };
 }
 
+// A video removed for copyright, which comes with a strike on the channel
+export function isCopyrightTakedown(video: YouTubeVideoInfo): boolean {
+  return video.uploadStatus === 'rejected' && video.rejectionReason === 'copyright';
+}
+
 // Check if a video has potential copyright issues based on available data
 export function detectPotentialIssues(
   currentVideo: YouTubeVideoInfo,
@@ -198,9 +204,11 @@ export function detectPotentialIssues(
   }
 
   // Check for upload status changes (rejected, deleted)
+  // Copyright takedowns are tracked as strikes instead
   if (
     previousVideo.uploadStatus === 'processed' &&
-    currentVideo.uploadStatus !== 'processed'
+    currentVideo.uploadStatus !== 'processed' &&
+    !isCopyrightTakedown(currentVideo)
   ) {
     changes.push(
       `Upload status changed from processed to ${currentVideo.uploadStatus}`
@@ -219,3 +227,34 @@ export function detectPotentialIssues(
 
   return { hasIssues: changes.length > 0, changes };
 }
+
+/**
+ * Whether a change reported by detectPotentialIssues no longer applies to the video.
+ * Unrecognised changes are never considered resolved.
+ */
+export function isIssueResolved(
+  change: string,
+  video: Partial<YouTubeVideoInfo>
+): boolean {
+  const blockedRegions = video.blockedRegions || [];
+
+  const newBlocks = change.match(/^New region blocks: (.+)$/);
+  if (newBlocks) {
+    const regions = newBlocks[1].split(',').map((r) => r.trim());
+    return !regions.some((r) => blockedRegions.includes(r));
+  }
+
+  if (/^Video is blocked in \d+ regions$/.test(change)) {
+    return blockedRegions.length === 0;
+  }
+
+  if (change.startsWith('Upload status changed from processed')) {
+    return video.uploadStatus === 'processed';
+  }
+
+  if (change.startsWith('Privacy status changed from public')) {
+    return video.privacyStatus === 'public';
+  }
+
+  return false;
+}
@@ -19,6 +19,29 @@ export interface ContentOwner {
   primaryNotificationEmails?: string[];
 }
 
+export interface PolicyRule {
+  action: string;  // monetize, block, track, takedown
+  // The API returns an object; older responses list conditions by type
+  conditions?:
+    | Array<{
+        type: string;
+        value?: string[];
+      }>
+    | {
+        requiredTerritories?: {
+          type?: string;  // include, exclude
+          territories?: string[];
+        };
+        matchDuration?: IntervalCondition[];  // Seconds of the video that match
+        matchPercent?: IntervalCondition[];  // Percent of the video that matches
+      };
+}
+
+export interface IntervalCondition {
+  low?: number;
+  high?: number;
+}
+
 export interface ContentIdClaim {
   id: string;
   assetId: string;
@@ -30,18 +53,10 @@ export interface ContentIdClaim {
   policy?: {
     id?: string;
     name?: string;
-    rules?: Array<{
-      action: string;  // monetize, block, track
-      conditions?: Array<{
-        type: string;
-        value?: string[];
-      }>;
-    }>;
+    rules?: PolicyRule[];
   };
   appliedPolicy?: {
-    rules?: Array<{
-      action: string;
-    }>;
+    rules?: PolicyRule[];
   };
   matchInfo?: {
     matchSegments?: Array<{
@@ -81,6 +96,26 @@ export interface ClaimSearchResult {
   };
 }
 
+export interface ClaimHistoryEvent {
+  time: string;
+  type: string; // claim_create, claim_update, dispute_create, appeal_create, ...
+  reason?: string;
+  source?: {
+    type?: string;
+    contentOwnerId?: string;
+    userEmail?: string;
+  };
+  typeDetails?: {
+    appealExplanation?: string;
+    disputeNotes?: string;
+    disputeReason?: string;
+    disputeType?: string;
+    reason?: string;
+    status?: string;
+    updateStatus?: string;
+  };
+}
+
 export interface AssetInfo {
   id: string;
   type: string;
@@ -93,6 +128,7 @@ export interface AssetInfo {
     album?: string;
     isrc?: string;
   };
+  ownerIds?: string[]; // Content owners holding general ownership of the asset
 }
 
 function getYouTubePartnerClient(accessToken: string) {
@@ -132,6 +168,36 @@ export async function getContentOwner(
   }
 }
 
+/**
+ * Get another content owner's public details, e.g. the owner of a claimed asset.
+ */
+export async function getContentOwnerById(
+  accessToken: string,
+  contentOwnerId: string,
+  ownerId: string
+): Promise<ContentOwner | null> {
+  const youtubePartner = getYouTubePartnerClient(accessToken);
+
+  try {
+    const response = await youtubePartner.contentOwners.get({
+      contentOwnerId: ownerId,
+      onBehalfOfContentOwner: contentOwnerId,
+    });
+
+    if (!response.data || !response.data.id) {
+      return null;
+    }
+
+    return {
+      id: response.data.id,
+      displayName: response.data.displayName || 'Unknown',
+    };
+  } catch (error: any) {
+    console.error('[ContentID] Error fetching content owner details:', error.message);
+    throw error;
+  }
+}
+
 /**
  * Search for claims on videos owned by the content owner.
  * Can filter by video IDs, status, date range, etc.
@@ -230,7 +296,7 @@ export async function getClaimHistory(
   accessToken: string,
   contentOwnerId: string,
   claimId: string
-): Promise<any[]> {
+): Promise<ClaimHistoryEvent[]> {
   const youtubePartner = getYouTubePartnerClient(accessToken);
 
   try {
@@ -239,7 +305,7 @@ export async function getClaimHistory(
       onBehalfOfContentOwner: contentOwnerId,
     });
 
-    return response.data.event || [];
+    return (response.data.event || []) as ClaimHistoryEvent[];
   } catch (error: any) {
     console.error('[ContentID] Error fetching claim history:', error.message);
     throw error;
@@ -260,18 +326,28 @@ export async function getAsset(
     const response = await youtubePartner.assets.get({
       assetId,
       onBehalfOfContentOwner: contentOwnerId,
+      // Effective data merges every owner's view, which is what third-party claims need
+      fetchMetadata: 'effective',
+      fetchOwnership: 'effective',
     });
 
     if (!response.data) {
       return null;
     }
 
+    const ownership = response.data.ownershipEffective || response.data.ownership;
+    const ownerIds: string[] = (ownership?.general || [])
+      .map((entry: { owner?: string }) => entry.owner)
+      .filter(Boolean);
+
     return {
       id: response.data.id || assetId,
       type: response.data.type || 'unknown',
       title: response.data.label,
       customId: response.data.customId || undefined,
-      metadata: response.data.metadata as AssetInfo['metadata'],
+      metadata: (response.data.metadataEffective ||
+        response.data.metadata) as AssetInfo['metadata'],
+      ownerIds,
     };
   } catch (error: any) {
     console.error('[ContentID] Error fetching asset:', error.message);
@@ -361,62 +437,150 @@ export async function getClaimsForVideos(
 }
 
 /**
- * Parse match info to get human-readable match details.
+ * Parse an ISO 8601 duration (e.g., "PT1M30S" = 90 seconds) into seconds.
  */
-export function parseMatchInfo(matchInfo?: ContentIdClaim['matchInfo']): {
-  matchStartMs: number;
-  matchEndMs: number;
-  matchDurationSecs: number;
-  matchType: string;
-} | null {
-  if (!matchInfo || !matchInfo.matchSegments || matchInfo.matchSegments.length === 0) {
-    return null;
+export function parseIsoDuration(duration: string): number {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?/);
+  if (!match) return 0;
+
+  const hours = parseFloat(match[1] || '0');
+  const minutes = parseFloat(match[2] || '0');
+  const seconds = parseFloat(match[3] || '0');
+
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+export interface ParsedMatchSegment {
+  position: number;
+  videoStartMs: number;
+  videoEndMs: number;
+  referenceStartMs: number | null;
+  referenceEndMs: number | null;
+  channel: string | null;
+}
+
+export interface ParsedMatchInfo {
+  segments: ParsedMatchSegment[];
+  matchStartMs: number | null; // Start of the earliest segment
+  matchEndMs: number | null; // End of the latest segment
+  totalMatchMs: number | null;
+  longestMatchMs: number | null;
+  matchPercent: number | null; // Of the video, when its duration is known
+}
+
+function parseSeconds(value?: string): number | null {
+  const seconds = value ? parseFloat(value) : NaN;
+  return isNaN(seconds) ? null : seconds;
+}
+
+/**
+ * Total time covered by the segments, counting overlapping stretches once.
+ */
+function getCoveredMs(segments: ParsedMatchSegment[]): number {
+  const sorted = [...segments].sort((a, b) => a.videoStartMs - b.videoStartMs);
+  let covered = 0;
+  let end = -1;
+
+  for (const segment of sorted) {
+    const start = Math.max(segment.videoStartMs, end);
+    if (segment.videoEndMs > start) {
+      covered += segment.videoEndMs - start;
+      end = segment.videoEndMs;
+    }
   }
 
-  const segment = matchInfo.matchSegments[0];
-  const videoSegment = segment.video_segment;
+  return covered;
+}
 
-  if (!videoSegment) {
+/**
+ * Parse match info into every matched segment and the overall match totals.
+ * YouTube's own totals are preferred; otherwise they're computed from the segments.
+ */
+export function parseMatchInfo(
+  matchInfo?: ContentIdClaim['matchInfo'],
+  videoDurationSecs?: number
+): ParsedMatchInfo | null {
+  if (!matchInfo) {
     return null;
   }
 
-  // Parse ISO 8601 duration (e.g., "PT1M30S" = 90 seconds)
-  const parseIsoDuration = (duration: string): number => {
-    const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?/);
-    if (!match) return 0;
+  const segments: ParsedMatchSegment[] = [];
 
-    const hours = parseFloat(match[1] || '0');
-    const minutes = parseFloat(match[2] || '0');
-    const seconds = parseFloat(match[3] || '0');
+  (matchInfo.matchSegments || []).forEach((segment, index) => {
+    const videoSegment = segment.video_segment;
+    if (!videoSegment) {
+      return;
+    }
 
-    return hours * 3600 + minutes * 60 + seconds;
-  };
+    const startSecs = parseIsoDuration(videoSegment.start || 'PT0S');
+    const durationSecs = parseIsoDuration(videoSegment.duration || 'PT0S');
+    const reference = segment.reference_segment;
+    const referenceStartSecs = reference ? parseIsoDuration(reference.start || 'PT0S') : null;
+
+    segments.push({
+      position: index,
+      videoStartMs: Math.round(startSecs * 1000),
+      videoEndMs: Math.round((startSecs + durationSecs) * 1000),
+      referenceStartMs: referenceStartSecs !== null ? Math.round(referenceStartSecs * 1000) : null,
+      referenceEndMs:
+        referenceStartSecs !== null
+          ? Math.round((referenceStartSecs + parseIsoDuration(reference!.duration || 'PT0S')) * 1000)
+          : null,
+      channel: segment.channel?.toLowerCase() || null,
+    });
+  });
+
+  const totalSecs = parseSeconds(matchInfo.totalMatch?.userVideoDurationSecs);
+  const longestSecs = parseSeconds(matchInfo.longestMatch?.durationSecs);
 
-  const startSecs = parseIsoDuration(videoSegment.start || 'PT0S');
-  const durationSecs = parseIsoDuration(videoSegment.duration || 'PT0S');
+  if (segments.length === 0 && totalSecs === null) {
+    return null;
+  }
+
+  const totalMatchMs = totalSecs !== null ? Math.round(totalSecs * 1000) : getCoveredMs(segments);
+  const longestMatchMs =
+    longestSecs !== null
+      ? Math.round(longestSecs * 1000)
+      : segments.length > 0
+        ? Math.max(...segments.map((s) => s.videoEndMs - s.videoStartMs))
+        : null;
 
   return {
-    matchStartMs: Math.round(startSecs * 1000),
-    matchEndMs: Math.round((startSecs + durationSecs) * 1000),
-    matchDurationSecs: durationSecs,
-    matchType: segment.channel || 'unknown',
+    segments,
+    matchStartMs: segments.length > 0 ? Math.min(...segments.map((s) => s.videoStartMs)) : null,
+    matchEndMs: segments.length > 0 ? Math.max(...segments.map((s) => s.videoEndMs)) : null,
+    totalMatchMs,
+    longestMatchMs,
+    matchPercent: videoDurationSecs
+      ? Math.round(Math.min(100, (totalMatchMs / (videoDurationSecs * 1000)) * 100) * 10) / 10
+      : null,
   };
 }
 
 /**
- * Parse policy to get the primary action being applied.
+ * Normalize claim history events into timeline entries.
+ * Events without a valid time are dropped since they can't be placed on the timeline.
  */
-export function parsePolicyAction(
-  policy?: ContentIdClaim['policy'],
-  appliedPolicy?: ContentIdClaim['appliedPolicy']
-): string {
-  const policyToCheck = appliedPolicy || policy;
-
-  if (!policyToCheck?.rules || policyToCheck.rules.length === 0) {
-    return 'unknown';
-  }
-
-  // Get the first rule's action (usually the most significant)
-  const primaryRule = policyToCheck.rules[0];
-  return primaryRule.action?.toLowerCase() || 'unknown';
+export function parseClaimHistory(events: ClaimHistoryEvent[]): Array<{
+  eventType: string;
+  occurredAt: Date;
+  source: string | null;
+  reason: string | null;
+  raw: ClaimHistoryEvent;
+}> {
+  return events
+    .map((event) => ({
+      eventType: event.type?.toLowerCase() || 'unknown',
+      occurredAt: new Date(event.time),
+      source: event.source?.type || null,
+      reason:
+        event.reason ||
+        event.typeDetails?.reason ||
+        event.typeDetails?.disputeReason ||
+        event.typeDetails?.appealExplanation ||
+        null,
+      raw: event,
+    }))
+    .filter((entry) => !isNaN(entry.occurredAt.getTime()))
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
 }
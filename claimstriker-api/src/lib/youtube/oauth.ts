@@ -8,6 +8,11 @@ const SCOPES = [
   'https://www.googleapis.com/auth/youtubepartner', // Content ID API access
 ];
 
+// googleapis doesn't re-export google-auth-library's CodeChallengeMethod enum
+type AuthUrlOptions = NonNullable<
+  Parameters<InstanceType<typeof google.auth.OAuth2>['generateAuthUrl']>[0]
+>;
+
 function getOAuth2Client() {
   return new google.auth.OAuth2(
     env.GOOGLE_CLIENT_ID,
@@ -16,7 +21,20 @@ function getOAuth2Client() {
   );
 }
 
-export function getAuthUrl(state?: string): string {
+/**
+ * PKCE verifier to keep server-side and the S256 challenge to send with the auth URL.
+ */
+export async function generatePkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const { codeVerifier, codeChallenge } = await getOAuth2Client().generateCodeVerifierAsync();
+
+  if (!codeChallenge) {
+    throw new Error('Failed to generate PKCE challenge');
+  }
+
+  return { codeVerifier, codeChallenge };
+}
+
+export function getAuthUrl(state: string, codeChallenge: string): string {
   const oauth2Client = getOAuth2Client();
 
   return oauth2Client.generateAuthUrl({
@@ -24,15 +42,18 @@ export function getAuthUrl(state?: string): string {
     scope: SCOPES,
     prompt: 'consent', // Force consent to get refresh token
     state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256' as AuthUrlOptions['code_challenge_method'],
   });
 }
 
 export async function exchangeCodeForTokens(
-  code: string
+  code: string,
+  codeVerifier: string
 ): Promise<YouTubeTokens> {
   const oauth2Client = getOAuth2Client();
 
-  const { tokens } = await oauth2Client.getToken(code);
+  const { tokens } = await oauth2Client.getToken({ code, codeVerifier });
 
   if (!tokens.access_token || !tokens.refresh_token) {
     throw new Error('Failed to get tokens from Google');
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { env } from '../../config/env.js';
+import { redis } from '../../config/redis.js';
+
+const STATE_TTL_SECONDS = 10 * 60;
+const KEY_PREFIX = 'youtube-oauth-state:';
+
+// Used as the `error` query param on the redirect back to the dashboard
+export type OAuthStateError = 'invalid_state' | 'state_expired' | 'state_replayed';
+
+interface StatePayload {
+  nonce: string;
+  exp: number; // Unix seconds
+}
+
+interface StoredState {
+  userId: string;
+  codeVerifier: string;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', env.JWT_SECRET).update(payload).digest('base64url');
+}
+
+/**
+ * Create a signed, short-lived state for the YouTube consent redirect.
+ * The user and PKCE verifier stay in Redis under the nonce; the state only carries the nonce.
+ */
+export async function createOAuthState(userId: string, codeVerifier: string): Promise<string> {
+  const payload: StatePayload = {
+    nonce: crypto.randomBytes(16).toString('hex'),
+    exp: Math.floor(Date.now() / 1000) + STATE_TTL_SECONDS,
+  };
+
+  await redis.set(
+    `${KEY_PREFIX}${payload.nonce}`,
+    JSON.stringify({ userId, codeVerifier } satisfies StoredState),
+    'EX',
+    STATE_TTL_SECONDS
+  );
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verify a state returned by Google and consume it, so each state links at most one channel.
+ */
+export async function consumeOAuthState(
+  state: string | undefined
+): Promise<StoredState | { error: OAuthStateError }> {
+  const [encoded, signature] = (state || '').split('.');
+  if (!encoded || !signature) {
+    return { error: 'invalid_state' };
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { error: 'invalid_state' };
+  }
+
+  let payload: StatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+  } catch {
+    return { error: 'invalid_state' };
+  }
+
+  if (!payload.nonce || !payload.exp) {
+    return { error: 'invalid_state' };
+  }
+
+  if (payload.exp < Date.now() / 1000) {
+    return { error: 'state_expired' };
+  }
+
+  // A valid signature with nothing stored means the state was already used
+  const stored = await redis.getdel(`${KEY_PREFIX}${payload.nonce}`);
+  if (!stored) {
+    return { error: 'state_replayed' };
+  }
+
+  return JSON.parse(stored) as StoredState;
+}
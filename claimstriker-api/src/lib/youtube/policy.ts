@@ -0,0 +1,232 @@
+import type { ContentIdClaim, IntervalCondition, PolicyRule } from './contentId.js';
+
+export interface PolicyTerritories {
+  type: 'include' | 'exclude';
+  territories: string[];
+}
+
+export interface ParsedPolicyRule {
+  action: string;
+  territories: PolicyTerritories | null; // null = everywhere
+  matchDuration: IntervalCondition[];
+  matchPercent: IntervalCondition[];
+}
+
+// What we know about the claim's match; unknown facts don't rule a condition out
+export interface ClaimMatchFacts {
+  matchDurationSecs: number | null;
+  matchPercent: number | null;
+}
+
+/**
+ * Action applied in each country. Countries not listed get the default;
+ * a null action means no rule of the claim applies there, e.g. a country
+ * excluded from a worldwide block.
+ */
+export interface RegionActions {
+  default: string | null;
+  territories: Record<string, string | null>;
+}
+
+export interface PolicyImpact {
+  monetizationImpact: 'none' | 'partial' | 'full' | null;
+  viewabilityImpact: 'none' | 'limited' | 'blocked' | null;
+  affectedRegions: string[];
+}
+
+// Actions that take the creator's ad revenue (blocked views earn nothing either)
+export const REVENUE_ACTIONS = ['monetize', 'block', 'takedown'];
+const BLOCK_ACTIONS = ['block', 'takedown'];
+
+// Least to most restrictive; when several rules cover a country the most restrictive wins
+const ACTION_SEVERITY = ['track', 'monetize', 'block', 'takedown'];
+
+function parseTerritories(conditions: PolicyRule['conditions']): PolicyTerritories | null {
+  if (!conditions) {
+    return null;
+  }
+
+  if (Array.isArray(conditions)) {
+    for (const condition of conditions) {
+      const type = condition.type?.toLowerCase();
+      if (type === 'territories' || type === 'requiredterritories' || type === 'include') {
+        return { type: 'include', territories: condition.value || [] };
+      }
+      if (type === 'exclude' || type === 'excludedterritories') {
+        return { type: 'exclude', territories: condition.value || [] };
+      }
+    }
+    return null;
+  }
+
+  const required = conditions.requiredTerritories;
+  if (!required?.territories) {
+    return null;
+  }
+
+  return {
+    type: required.type?.toLowerCase() === 'exclude' ? 'exclude' : 'include',
+    territories: required.territories.map((territory) => territory.toUpperCase()),
+  };
+}
+
+/**
+ * Rules of the policy in effect, preferring the applied policy over the claimant's requested one.
+ */
+export function parsePolicyRules(
+  policy?: ContentIdClaim['policy'],
+  appliedPolicy?: ContentIdClaim['appliedPolicy']
+): ParsedPolicyRule[] {
+  const rules = appliedPolicy?.rules?.length ? appliedPolicy.rules : policy?.rules || [];
+
+  return rules.map((rule) => {
+    const conditions = Array.isArray(rule.conditions) ? undefined : rule.conditions;
+
+    return {
+      action: rule.action?.toLowerCase() || 'unknown',
+      territories: parseTerritories(rule.conditions),
+      matchDuration: conditions?.matchDuration || [],
+      matchPercent: conditions?.matchPercent || [],
+    };
+  });
+}
+
+function inIntervals(value: number | null, intervals: IntervalCondition[]): boolean {
+  if (value === null || intervals.length === 0) {
+    return true;
+  }
+
+  return intervals.some(
+    (interval) =>
+      (interval.low === undefined || value >= interval.low) &&
+      (interval.high === undefined || value <= interval.high)
+  );
+}
+
+function appliesIn(rule: ParsedPolicyRule, country: string | null): boolean {
+  if (!rule.territories) {
+    return true;
+  }
+
+  // A null country stands for every territory no rule lists
+  const listed = country !== null && rule.territories.territories.includes(country);
+  return rule.territories.type === 'include' ? listed : !listed;
+}
+
+function mostRestrictive(actions: Array<string | null>): string | null {
+  return actions.reduce<string | null>((current, action) => {
+    if (!action) return current;
+    if (!current) return action;
+    return ACTION_SEVERITY.indexOf(action) > ACTION_SEVERITY.indexOf(current) ? action : current;
+  }, null);
+}
+
+function compactRegionActions(
+  defaultAction: string | null,
+  actionFor: (country: string) => string | null,
+  countries: Iterable<string>
+): RegionActions {
+  const territories: Record<string, string | null> = {};
+
+  for (const country of Array.from(new Set(countries)).sort()) {
+    const action = actionFor(country);
+    // Keep a null too, or the country would inherit the default
+    if (action !== defaultAction) {
+      territories[country] = action;
+    }
+  }
+
+  return { default: defaultAction, territories };
+}
+
+/**
+ * Evaluate every rule and its conditions into the action applied in each country.
+ * Returns null when the policy is unknown.
+ */
+export function evaluateRegionActions(
+  rules: ParsedPolicyRule[],
+  facts: ClaimMatchFacts
+): RegionActions | null {
+  const known = rules.filter((rule) => rule.action !== 'unknown');
+  if (known.length === 0) {
+    return null;
+  }
+
+  const applicable = known.filter(
+    (rule) =>
+      inIntervals(facts.matchDurationSecs, rule.matchDuration) &&
+      inIntervals(facts.matchPercent, rule.matchPercent)
+  );
+
+  const actionIn = (country: string | null) =>
+    mostRestrictive(applicable.filter((rule) => appliesIn(rule, country)).map((rule) => rule.action));
+
+  return compactRegionActions(
+    actionIn(null),
+    actionIn,
+    applicable.flatMap((rule) => rule.territories?.territories || [])
+  );
+}
+
+function actionIn(regions: RegionActions, country: string): string | null {
+  return country in regions.territories ? regions.territories[country] : regions.default;
+}
+
+/**
+ * Combine several claims' region actions, e.g. for every claim on a video.
+ */
+export function mergeRegionActions(maps: RegionActions[]): RegionActions {
+  const defaultAction = mostRestrictive(maps.map((map) => map.default));
+
+  return compactRegionActions(
+    defaultAction,
+    (country) => mostRestrictive(maps.map((map) => actionIn(map, country))),
+    maps.flatMap((map) => Object.keys(map.territories))
+  );
+}
+
+/**
+ * The most restrictive action the claim applies anywhere, kept as the event's policy action.
+ */
+export function getPrimaryAction(regions: RegionActions | null): string {
+  if (!regions) {
+    return 'unknown';
+  }
+
+  return mostRestrictive([regions.default, ...Object.values(regions.territories)]) || 'none';
+}
+
+/**
+ * Monetization and viewability impact of a claim's region actions.
+ * Impacts stay null when the policy is unknown rather than guessing "none".
+ */
+export function derivePolicyImpact(regions: RegionActions | null): PolicyImpact {
+  if (!regions) {
+    return { monetizationImpact: null, viewabilityImpact: null, affectedRegions: [] };
+  }
+
+  const overrides = Object.entries(regions.territories);
+
+  const impactOf = (actions: string[]) => {
+    const matching = overrides.filter(([, action]) => !!action && actions.includes(action));
+    const everywhere =
+      !!regions.default &&
+      actions.includes(regions.default) &&
+      matching.length === overrides.length;
+    const anywhere =
+      matching.length > 0 || (!!regions.default && actions.includes(regions.default));
+
+    return { everywhere, anywhere, countries: matching.map(([country]) => country) };
+  };
+
+  const revenue = impactOf(REVENUE_ACTIONS);
+  const blocked = impactOf(BLOCK_ACTIONS);
+
+  return {
+    monetizationImpact: revenue.everywhere ? 'full' : revenue.anywhere ? 'partial' : 'none',
+    viewabilityImpact: blocked.everywhere ? 'blocked' : blocked.anywhere ? 'limited' : 'none',
+    // Countries singled out by the claim; a worldwide action has none to list,
+    // even one with exceptions
+    affectedRegions: blocked.anywhere ? blocked.countries : revenue.countries,
+  };
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { prisma } from '../../config/database.js';
+import { redis } from '../../config/redis.js';
+import { decrypt, encrypt } from '../encryption.js';
+import { notificationQueue } from '../../workers/queue.js';
+import type { NotificationJob } from '../../workers/queue.js';
+import { refreshAccessToken } from './oauth.js';
+
+// Refresh a little early so a token doesn't expire mid-sync
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+const LOCK_TTL_MS = 30 * 1000;
+const LOCK_WAIT_MS = 15 * 1000;
+const LOCK_POLL_MS = 250;
+
+function isInvalidGrant(error: any): boolean {
+  return (
+    error?.response?.data?.error === 'invalid_grant' ||
+    error?.message?.includes('invalid_grant')
+  );
+}
+
+async function acquireLock(key: string): Promise<string | null> {
+  const token = crypto.randomBytes(16).toString('hex');
+  const acquired = await redis.set(key, token, 'PX', LOCK_TTL_MS, 'NX');
+  return acquired ? token : null;
+}
+
+async function releaseLock(key: string, token: string): Promise<void> {
+  // Only release our own lock; it may have expired and been taken by another worker
+  if ((await redis.get(key)) === token) {
+    await redis.del(key);
+  }
+}
+
+/**
+ * Mark the channel as revoked and tell its owner to reconnect it.
+ */
+async function revokeChannel(channelId: string): Promise<void> {
+  const channel = await prisma.channel.update({
+    where: { id: channelId },
+    data: {
+      status: 'REVOKED',
+      lastSyncError: 'YouTube access was revoked - reconnect the channel',
+    },
+  });
+
+  console.log(`[TokenManager] Channel ${channelId} revoked access`);
+
+  await notificationQueue.add('notify', {
+    userId: channel.userId,
+    type: 'SYNC_ERROR',
+    title: 'YouTube Access Revoked',
+    message: `Google no longer accepts our access to "${channel.title}". Reconnect the channel to keep monitoring it for claims.`,
+    channelId,
+    sendEmail: true,
+  } as NotificationJob);
+}
+
+async function refreshChannelToken(channelId: string): Promise<string> {
+  const channel = await prisma.channel.findUniqueOrThrow({ where: { id: channelId } });
+
+  try {
+    const tokens = await refreshAccessToken(decrypt(channel.refreshToken));
+
+    await prisma.channel.update({
+      where: { id: channelId },
+      data: {
+        accessToken: encrypt(tokens.accessToken),
+        refreshToken: encrypt(tokens.refreshToken),
+        tokenExpiresAt: tokens.expiresAt,
+      },
+    });
+
+    console.log(`[TokenManager] Refreshed token for channel ${channelId}`);
+    return tokens.accessToken;
+  } catch (error: any) {
+    if (isInvalidGrant(error)) {
+      await revokeChannel(channelId);
+      throw new Error('YouTube access was revoked - reconnect the channel');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Access token for a channel, refreshed first when it expires within `minValidityMs`
+ * (pass Infinity to force a refresh). A Redis lock keeps concurrent jobs from refreshing
+ * the same channel at once; jobs that lose the race wait and use the token the winner stored.
+ */
+export async function getValidAccessToken(
+  channelId: string,
+  { minValidityMs = EXPIRY_MARGIN_MS }: { minValidityMs?: number } = {}
+): Promise<string> {
+  const readChannel = () =>
+    prisma.channel.findUniqueOrThrow({
+      where: { id: channelId },
+      select: { status: true, accessToken: true, tokenExpiresAt: true },
+    });
+
+  const isFresh = (channel: { tokenExpiresAt: Date }) =>
+    channel.tokenExpiresAt.getTime() - Date.now() > minValidityMs;
+
+  let channel = await readChannel();
+
+  if (channel.status === 'REVOKED') {
+    throw new Error('YouTube access was revoked - reconnect the channel');
+  }
+
+  if (isFresh(channel)) {
+    return decrypt(channel.accessToken);
+  }
+
+  const lockKey = `channel-token-refresh:${channelId}`;
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  while (Date.now() < deadline) {
+    const lock = await acquireLock(lockKey);
+
+    if (lock) {
+      try {
+        // Another worker may have refreshed while we waited for the lock
+        channel = await readChannel();
+        if (isFresh(channel)) {
+          return decrypt(channel.accessToken);
+        }
+        return await refreshChannelToken(channelId);
+      } finally {
+        await releaseLock(lockKey, lock);
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+
+    channel = await readChannel();
+    if (channel.status === 'REVOKED') {
+      throw new Error('YouTube access was revoked - reconnect the channel');
+    }
+    // A forced refresh can't tell the winner's token apart, so it takes the lock itself
+    if (minValidityMs !== Infinity && isFresh(channel)) {
+      return decrypt(channel.accessToken);
+    }
+  }
+
+  throw new Error(`Timed out waiting for the token refresh of channel ${channelId}`);
+}
@@ -2,6 +2,11 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { Role, Permission } from '@prisma/client';
 import { prisma } from '../config/database.js';
+import { claimantStatsQueue, keyRotationQueue } from '../workers/queue.js';
+import { countPendingReEncryption } from '../workers/keyRotation.js';
+import { getActiveKeyId, getKeyIds } from '../lib/encryption.js';
+import { getSystemSettings, setSystemSetting } from '../lib/systemSettings.js';
+import { isTwoFactorRequired } from '../lib/twoFactor.js';
 import {
   requirePermission,
   requireAdmin,
@@ -24,6 +29,22 @@ const updateRoleSchema = z.object({
   role: z.enum(['USER', 'ADMIN', 'SUPER_ADMIN']),
 });
 
+const reportsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(['pending', 'flagged', 'approved', 'rejected']).default('pending'),
+  claimantId: z.string().optional(),
+});
+
+const updateSettingsSchema = z.object({
+  requireTwoFactorForAdmins: z.boolean().optional(),
+});
+
+const moderateReportSchema = z.object({
+  action: z.enum(['approve', 'flag', 'reject']),
+  notes: z.string().max(2000).optional(),
+});
+
 export async function adminRoutes(fastify: FastifyInstance) {
   // All admin routes require authentication and admin role
   fastify.addHook('preHandler', async (request, reply) => {
@@ -40,6 +61,25 @@ export async function adminRoutes(fastify: FastifyInstance) {
     // Then check admin role
     const adminCheck = requireAdmin();
     await adminCheck(request, reply);
+    if (reply.sent) {
+      return;
+    }
+
+    // Then the 2FA policy; admins without 2FA can still sign in to set it up
+    const { userId, role } = request.user!;
+    if (await isTwoFactorRequired(role)) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { totpEnabledAt: true },
+      });
+
+      if (!user?.totpEnabledAt) {
+        return reply.status(403).send({
+          success: false,
+          error: 'Two-factor authentication is required for admin accounts',
+        });
+      }
+    }
   });
 
   // Get system statistics
@@ -468,4 +508,258 @@ export async function adminRoutes(fastify: FastifyInstance) {
       });
     }
   );
+
+  // Community report moderation queue
+  fastify.get(
+    '/reports',
+    {
+      preHandler: [requirePermission(Permission.MODERATE_REPORTS) as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const query = reportsQuerySchema.parse(request.query);
+      const { page, limit, status, claimantId } = query;
+
+      const where: any = {};
+
+      switch (status) {
+        case 'pending':
+          where.moderatedAt = null;
+          break;
+        case 'flagged':
+          where.isFlagged = true;
+          break;
+        case 'approved':
+          where.isApproved = true;
+          break;
+        case 'rejected':
+          where.moderatedAt = { not: null };
+          where.isApproved = false;
+          where.isFlagged = false;
+          break;
+      }
+
+      if (claimantId) {
+        where.claimantId = claimantId;
+      }
+
+      const [reports, total] = await Promise.all([
+        prisma.claimantReport.findMany({
+          where,
+          include: {
+            claimant: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            dispute: {
+              select: {
+                id: true,
+                status: true,
+                resolvedAt: true,
+              },
+            },
+          },
+          // Oldest first so the queue is worked in submission order
+          orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.claimantReport.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          reports,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      });
+    }
+  );
+
+  // Approve, flag or reject a community report
+  fastify.patch(
+    '/reports/:reportId',
+    {
+      preHandler: [requirePermission(Permission.MODERATE_REPORTS) as any],
+    },
+    async (request: FastifyRequest<{ Params: { reportId: string } }>, reply: FastifyReply) => {
+      const { reportId } = request.params;
+      const currentUser = request.user as any;
+      const result = moderateReportSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const { action, notes } = result.data;
+
+      const report = await prisma.claimantReport.findUnique({
+        where: { id: reportId },
+      });
+
+      if (!report) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Report not found',
+        });
+      }
+
+      const updated = await prisma.claimantReport.update({
+        where: { id: reportId },
+        data: {
+          isApproved: action === 'approve',
+          isFlagged: action === 'flag',
+          moderationNotes: notes ?? report.moderationNotes,
+          moderatedAt: new Date(),
+          moderatedBy: currentUser.userId,
+        },
+      });
+
+      // Approved reports feed claimant statistics, so recalculate when that changes
+      if (updated.isApproved !== report.isApproved) {
+        await claimantStatsQueue.add(
+          'recalculate-claimant-stats',
+          { claimantId: report.claimantId },
+          { jobId: `claimant-stats-${report.claimantId}-${Date.now()}` }
+        );
+      }
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+
+  // Encryption keys and how many stored values still use an older one
+  fastify.get(
+    '/encryption',
+    {
+      preHandler: [requirePermission(Permission.MANAGE_SYSTEM) as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const [pending, activeJobs] = await Promise.all([
+        countPendingReEncryption(),
+        keyRotationQueue.getJobs(['active', 'waiting', 'delayed']),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          activeKeyId: getActiveKeyId(),
+          keyIds: getKeyIds(),
+          pending,
+          rotationInProgress: activeJobs.length > 0,
+        },
+      });
+    }
+  );
+
+  // Re-encrypt stored secrets with the active key
+  fastify.post(
+    '/encryption/rotate',
+    {
+      preHandler: [requirePermission(Permission.MANAGE_SYSTEM) as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const currentUser = request.user as any;
+
+      // One rotation at a time; a second would only race the first
+      const activeJobs = await keyRotationQueue.getJobs(['active', 'waiting', 'delayed']);
+      if (activeJobs.length > 0) {
+        return reply.status(409).send({
+          success: false,
+          error: 'A key rotation is already in progress',
+        });
+      }
+
+      const job = await keyRotationQueue.add(
+        'rotate-encryption-key',
+        { requestedBy: currentUser.userId },
+        { jobId: `key-rotation-${Date.now()}` }
+      );
+
+      return reply.status(202).send({
+        success: true,
+        data: {
+          jobId: job.id,
+          activeKeyId: getActiveKeyId(),
+        },
+      });
+    }
+  );
+
+  // Instance-wide settings, e.g. the 2FA policy
+  fastify.get(
+    '/settings',
+    {
+      preHandler: [requirePermission(Permission.VIEW_SYSTEM) as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send({
+        success: true,
+        data: await getSystemSettings(),
+      });
+    }
+  );
+
+  fastify.patch(
+    '/settings',
+    {
+      preHandler: [requirePermission(Permission.MANAGE_SYSTEM) as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const currentUser = request.user as any;
+      const result = updateSettingsSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const { requireTwoFactorForAdmins } = result.data;
+
+      if (requireTwoFactorForAdmins !== undefined) {
+        // Otherwise the policy would lock the admin who turned it on out of this page
+        if (requireTwoFactorForAdmins) {
+          const user = await prisma.user.findUnique({
+            where: { id: currentUser.userId },
+            select: { totpEnabledAt: true },
+          });
+
+          if (!user?.totpEnabledAt) {
+            return reply.status(400).send({
+              success: false,
+              error: 'Enable two-factor authentication on your own account first',
+            });
+          }
+        }
+
+        await setSystemSetting(
+          'requireTwoFactorForAdmins',
+          requireTwoFactorForAdmins,
+          currentUser.userId
+        );
+      }
+
+      return reply.send({
+        success: true,
+        data: await getSystemSettings(),
+      });
+    }
+  );
 }
@@ -1,9 +1,35 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { Role } from '@prisma/client';
+import { env } from '../config/env.js';
 import { prisma } from '../config/database.js';
-import { hashPassword, verifyPassword } from '../lib/encryption.js';
+import { encrypt, hashPassword, verifyPassword } from '../lib/encryption.js';
 import { getPermissionsForRole } from '../lib/permissions.js';
+import { checkRateLimit } from '../lib/rateLimit.js';
+import { createUserToken, consumeUserToken } from '../lib/userTokens.js';
+import { renderAccountEmail, type AccountEmailType } from '../lib/email/templates.js';
+import { getEmailTransport } from '../lib/email/transport.js';
+import { buildOtpAuthUri, generateTotpSecret } from '../lib/totp.js';
+import {
+  acceptTotpCode,
+  clearLoginChallenge,
+  countRecoveryCodes,
+  createLoginChallenge,
+  generateRecoveryCodes,
+  getLoginChallenge,
+  isTwoFactorRequired,
+  recordFailedChallenge,
+  verifySecondFactor,
+} from '../lib/twoFactor.js';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  REFRESH_COOKIE,
+  REFRESH_TOKEN_TTL_SECONDS,
+  type ClientInfo,
+} from '../lib/sessions.js';
 import type { AuthResponse, JWTPayload } from '../types/index.js';
 
 const registerSchema = z.object({
@@ -17,7 +43,117 @@ const loginSchema = z.object({
   password: z.string(),
 });
 
+const tokenSchema = z.object({
+  token: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+});
+
+const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(1),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1),
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string(),
+  code: z.string().min(1),
+});
+
+const HOUR_SECONDS = 60 * 60;
+const TWO_FACTOR_WINDOW_SECONDS = 15 * 60;
+
+function getClientInfo(request: FastifyRequest): ClientInfo {
+  return {
+    userAgent: request.headers['user-agent']?.slice(0, 512),
+    ipAddress: request.ip,
+  };
+}
+
+function setRefreshCookie(reply: FastifyReply, refreshToken: string) {
+  reply.setCookie(REFRESH_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/auth',
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+  });
+}
+
+function clearRefreshCookie(reply: FastifyReply) {
+  reply.clearCookie(REFRESH_COOKIE, { path: '/auth' });
+}
+
+/**
+ * Reply 429 and return true when the key is over its limit.
+ */
+async function isRateLimited(
+  reply: FastifyReply,
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<boolean> {
+  const { allowed, retryAfterSeconds } = await checkRateLimit(key, limit, windowSeconds);
+  if (allowed) {
+    return false;
+  }
+
+  reply.header('Retry-After', retryAfterSeconds).status(429).send({
+    success: false,
+    error: 'Too many requests, please try again later',
+  });
+  return true;
+}
+
+/**
+ * Issue a single-use token and email its link. Failures are only logged, so callers
+ * can send in the background.
+ */
+async function sendAccountEmail(
+  user: { id: string; email: string; name: string | null },
+  type: AccountEmailType
+): Promise<void> {
+  try {
+    const token = await createUserToken(
+      user.id,
+      type === 'verify-email' ? 'EMAIL_VERIFICATION' : 'PASSWORD_RESET'
+    );
+    const email = renderAccountEmail({ type, token, recipientName: user.name });
+    await getEmailTransport().send({ to: user.email, ...email });
+  } catch (error: any) {
+    console.error(`[Auth] Failed to send ${type} email to user ${user.id}:`, error.message);
+  }
+}
+
 export async function authRoutes(fastify: FastifyInstance) {
+  // Start a session and return its first access token
+  async function signIn(
+    user: { id: string; email: string; role: JWTPayload['role'] },
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<string> {
+    const { sessionId, refreshToken } = await createSession(user.id, getClientInfo(request));
+    setRefreshCookie(reply, refreshToken);
+
+    const payload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId,
+    };
+    return fastify.jwt.sign(payload);
+  }
+
   // Register
   fastify.post('/register', async (request: FastifyRequest, reply: FastifyReply) => {
     const result = registerSchema.safeParse(request.body);
@@ -66,13 +202,9 @@ export async function authRoutes(fastify: FastifyInstance) {
       },
     });
 
-    // Generate token
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
-    const token = fastify.jwt.sign(payload);
+    const token = await signIn(user, request, reply);
+
+    void sendAccountEmail(user, 'verify-email');
 
     return reply.status(201).send({
       success: true,
@@ -102,6 +234,14 @@ export async function authRoutes(fastify: FastifyInstance) {
 
     const { email, password } = result.data;
 
+    // Per account, so guessing a password (and with it, fresh 2FA challenges) can't be
+    // spread across addresses
+    if (
+      await isRateLimited(reply, `login:${email.toLowerCase()}`, 10, TWO_FACTOR_WINDOW_SECONDS)
+    ) {
+      return reply;
+    }
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
@@ -111,6 +251,7 @@ export async function authRoutes(fastify: FastifyInstance) {
         name: true,
         role: true,
         passwordHash: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -130,13 +271,18 @@ export async function authRoutes(fastify: FastifyInstance) {
       });
     }
 
-    // Generate token
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
-    const token = fastify.jwt.sign(payload);
+    // With 2FA on, the password only earns a challenge for the code step
+    if (user.totpEnabledAt) {
+      return reply.send({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: await createLoginChallenge(user.id),
+        },
+      });
+    }
+
+    const token = await signIn(user, request, reply);
 
     return reply.send({
       success: true,
@@ -149,6 +295,90 @@ export async function authRoutes(fastify: FastifyInstance) {
           role: user.role,
           permissions: getPermissionsForRole(user.role),
         },
+        // Signed in, but the admin policy wants 2FA set up before the admin area opens
+        twoFactorSetupRequired: await isTwoFactorRequired(user.role),
+      },
+    });
+  });
+
+  // Second login step: a code from the authenticator app or a recovery code
+  fastify.post('/login/2fa', async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = loginTwoFactorSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Validation failed',
+        details: result.error.flatten(),
+      });
+    }
+
+    const { challengeToken, code } = result.data;
+
+    if (
+      await isRateLimited(reply, `login-2fa:${request.ip}`, 20, TWO_FACTOR_WINDOW_SECONDS)
+    ) {
+      return reply;
+    }
+
+    const userId = await getLoginChallenge(challengeToken);
+
+    // Each new challenge allows a few attempts, so also cap codes per user across challenges
+    // and addresses
+    if (
+      userId &&
+      (await isRateLimited(reply, `login-2fa-user:${userId}`, 10, TWO_FACTOR_WINDOW_SECONDS))
+    ) {
+      return reply;
+    }
+
+    const user =
+      userId &&
+      (await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          totpSecret: true,
+          totpEnabledAt: true,
+        },
+      }));
+
+    if (!user) {
+      return reply.status(401).send({
+        success: false,
+        error: 'This sign-in attempt has expired, please sign in again',
+      });
+    }
+
+    const factor = await verifySecondFactor(user, code);
+    if (!factor) {
+      await recordFailedChallenge(challengeToken);
+      return reply.status(401).send({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+    }
+
+    await clearLoginChallenge(challengeToken);
+    const token = await signIn(user, request, reply);
+
+    return reply.send({
+      success: true,
+      data: {
+        token,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          permissions: getPermissionsForRole(user.role),
+        },
+        // So the app can warn when the user is running out of recovery codes
+        ...(factor === 'recovery' && {
+          recoveryCodesRemaining: await countRecoveryCodes(user.id),
+        }),
       },
     });
   });
@@ -169,6 +399,8 @@ export async function authRoutes(fastify: FastifyInstance) {
           email: true,
           name: true,
           role: true,
+          emailVerified: true,
+          totpEnabledAt: true,
           createdAt: true,
           channels: {
             select: {
@@ -202,6 +434,9 @@ export async function authRoutes(fastify: FastifyInstance) {
           name: user.name,
           role: user.role,
           permissions: getPermissionsForRole(user.role),
+          emailVerified: user.emailVerified,
+          twoFactorEnabled: user.totpEnabledAt !== null,
+          twoFactorRequired: await isTwoFactorRequired(user.role),
           createdAt: user.createdAt,
           channelCount: user._count.channels,
           hasPartnerAccess,
@@ -209,4 +444,544 @@ export async function authRoutes(fastify: FastifyInstance) {
       });
     }
   );
+
+  // Exchange the refresh token cookie for a new access token
+  fastify.post('/refresh', async (request: FastifyRequest, reply: FastifyReply) => {
+    const refreshToken = request.cookies[REFRESH_COOKIE];
+    const rotated = refreshToken
+      ? await rotateSession(refreshToken, getClientInfo(request))
+      : null;
+
+    const user =
+      rotated &&
+      (await prisma.user.findUnique({
+        where: { id: rotated.userId },
+        select: { id: true, email: true, role: true },
+      }));
+
+    if (!rotated || !user) {
+      clearRefreshCookie(reply);
+      return reply.status(401).send({
+        success: false,
+        error: 'Session expired',
+      });
+    }
+
+    if (rotated.refreshToken) {
+      setRefreshCookie(reply, rotated.refreshToken);
+    }
+
+    const payload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId: rotated.sessionId,
+    };
+
+    return reply.send({
+      success: true,
+      data: { token: fastify.jwt.sign(payload) },
+    });
+  });
+
+  // Sign out of the current session
+  fastify.post(
+    '/logout',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      await revokeSession(request.user!.sessionId);
+      clearRefreshCookie(reply);
+
+      return reply.send({
+        success: true,
+        data: { message: 'Logged out' },
+      });
+    }
+  );
+
+  // List the devices the user is signed in on
+  fastify.get(
+    '/sessions',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId, sessionId } = request.user!;
+
+      const sessions = await prisma.session.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        select: {
+          id: true,
+          userAgent: true,
+          ipAddress: true,
+          createdAt: true,
+          lastSeenAt: true,
+        },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+
+      return reply.send({
+        success: true,
+        data: sessions.map((session) => ({
+          ...session,
+          current: session.id === sessionId,
+        })),
+      });
+    }
+  );
+
+  // Sign out of every other session
+  fastify.delete(
+    '/sessions',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId, sessionId } = request.user!;
+
+      const revoked = await revokeUserSessions(userId, { except: sessionId });
+
+      return reply.send({
+        success: true,
+        data: { revoked },
+      });
+    }
+  );
+
+  // Sign out of one session
+  fastify.delete(
+    '/sessions/:sessionId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { sessionId: string } }>, reply: FastifyReply) => {
+      const { userId, sessionId: currentSessionId } = request.user!;
+      const { sessionId } = request.params;
+
+      const session = await prisma.session.findFirst({
+        where: { id: sessionId, userId, revokedAt: null },
+      });
+
+      if (!session) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+
+      await revokeSession(sessionId);
+      if (sessionId === currentSessionId) {
+        clearRefreshCookie(reply);
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Session revoked' },
+      });
+    }
+  );
+
+  // Email a new verification link to the signed-in user
+  fastify.post(
+    '/verify-email/send',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+
+      if (await isRateLimited(reply, `verify-email-send:${userId}`, 3, HOUR_SECONDS)) {
+        return reply;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, name: true, emailVerified: true },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      if (user.emailVerified) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Email is already verified',
+        });
+      }
+
+      await sendAccountEmail(user, 'verify-email');
+
+      return reply.send({
+        success: true,
+        data: { message: 'Verification email sent' },
+      });
+    }
+  );
+
+  // Confirm an email address with the token from the verification link
+  fastify.post('/verify-email', async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = tokenSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Validation failed',
+        details: result.error.flatten(),
+      });
+    }
+
+    if (await isRateLimited(reply, `verify-email:${request.ip}`, 20, HOUR_SECONDS)) {
+      return reply;
+    }
+
+    const userId = await consumeUserToken(result.data.token, 'EMAIL_VERIFICATION');
+    if (!userId) {
+      return reply.status(400).send({
+        success: false,
+        error: 'This verification link is invalid or has expired',
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: true },
+    });
+
+    return reply.send({
+      success: true,
+      data: { message: 'Email verified' },
+    });
+  });
+
+  // Email a password reset link. The response is the same whether or not the account exists.
+  fastify.post('/forgot-password', async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = forgotPasswordSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Validation failed',
+        details: result.error.flatten(),
+      });
+    }
+
+    const { email } = result.data;
+
+    if (
+      (await isRateLimited(reply, `forgot-password-ip:${request.ip}`, 10, HOUR_SECONDS)) ||
+      (await isRateLimited(reply, `forgot-password:${email.toLowerCase()}`, 3, HOUR_SECONDS))
+    ) {
+      return reply;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (user) {
+      // In the background, so the response time doesn't give the account away either
+      void sendAccountEmail(user, 'reset-password');
+    }
+
+    return reply.send({
+      success: true,
+      data: { message: 'If an account exists for that email, a reset link is on its way' },
+    });
+  });
+
+  // Set a new password with the token from the reset link
+  fastify.post('/reset-password', async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = resetPasswordSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Validation failed',
+        details: result.error.flatten(),
+      });
+    }
+
+    if (await isRateLimited(reply, `reset-password:${request.ip}`, 20, HOUR_SECONDS)) {
+      return reply;
+    }
+
+    const { token, password } = result.data;
+
+    const userId = await consumeUserToken(token, 'PASSWORD_RESET');
+    if (!userId) {
+      return reply.status(400).send({
+        success: false,
+        error: 'This reset link is invalid or has expired',
+      });
+    }
+
+    // The link arrived by email, so the address is confirmed too
+    await prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await hashPassword(password), emailVerified: true },
+    });
+
+    // Whoever knew the old password is signed out everywhere
+    await revokeUserSessions(userId);
+
+    return reply.send({
+      success: true,
+      data: { message: 'Password updated, you can now sign in' },
+    });
+  });
+
+  // Two-factor status for the settings page
+  fastify.get(
+    '/2fa',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId, role } = request.user!;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { totpEnabledAt: true },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          enabled: user.totpEnabledAt !== null,
+          enabledAt: user.totpEnabledAt,
+          required: await isTwoFactorRequired(role),
+          recoveryCodesRemaining: user.totpEnabledAt ? await countRecoveryCodes(userId) : 0,
+        },
+      });
+    }
+  );
+
+  // Start 2FA setup: a new secret and the URI for the authenticator app's QR code
+  fastify.post(
+    '/2fa/setup',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, totpEnabledAt: true },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      if (user.totpEnabledAt) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        });
+      }
+
+      // Stays unconfirmed until /2fa/enable checks a code from it
+      const secret = generateTotpSecret();
+      await prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: encrypt(secret), totpLastUsedStep: null },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          secret,
+          otpauthUri: buildOtpAuthUri(secret, user.email),
+        },
+      });
+    }
+  );
+
+  // Confirm setup with a first code; returns the recovery codes, shown only this once
+  fastify.post(
+    '/2fa/enable',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = twoFactorCodeSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      if (await isRateLimited(reply, `2fa:${userId}`, 10, TWO_FACTOR_WINDOW_SECONDS)) {
+        return reply;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, totpSecret: true, totpEnabledAt: true },
+      });
+
+      if (!user || !user.totpSecret || user.totpEnabledAt) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Start two-factor setup first',
+        });
+      }
+
+      if ((await acceptTotpCode(user, result.data.code)) === null) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid authentication code',
+        });
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { totpEnabledAt: new Date() },
+      });
+
+      return reply.send({
+        success: true,
+        data: { recoveryCodes: await generateRecoveryCodes(userId) },
+      });
+    }
+  );
+
+  // Replace the recovery codes, e.g. after using some of them
+  fastify.post(
+    '/2fa/recovery-codes',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = twoFactorCodeSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      if (await isRateLimited(reply, `2fa:${userId}`, 10, TWO_FACTOR_WINDOW_SECONDS)) {
+        return reply;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, totpSecret: true, totpEnabledAt: true },
+      });
+
+      if (!user?.totpEnabledAt) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Two-factor authentication is not enabled',
+        });
+      }
+
+      if (!(await verifySecondFactor(user, result.data.code))) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid authentication code',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { recoveryCodes: await generateRecoveryCodes(userId) },
+      });
+    }
+  );
+
+  // Turn 2FA off; needs the password and a current code
+  fastify.post(
+    '/2fa/disable',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = disableTwoFactorSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      if (await isRateLimited(reply, `2fa:${userId}`, 10, TWO_FACTOR_WINDOW_SECONDS)) {
+        return reply;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          role: true,
+          passwordHash: true,
+          totpSecret: true,
+          totpEnabledAt: true,
+        },
+      });
+
+      if (!user?.totpEnabledAt) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Two-factor authentication is not enabled',
+        });
+      }
+
+      if (await isTwoFactorRequired(user.role)) {
+        return reply.status(403).send({
+          success: false,
+          error: 'Two-factor authentication is required for your role',
+        });
+      }
+
+      if (
+        !(await verifyPassword(result.data.password, user.passwordHash)) ||
+        !(await verifySecondFactor(user, result.data.code))
+      ) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid password or authentication code',
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.recoveryCode.deleteMany({ where: { userId } }),
+        prisma.user.update({
+          where: { id: userId },
+          data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+        }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: { message: 'Two-factor authentication disabled' },
+      });
+    }
+  );
 }
@@ -1,13 +1,30 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
+import { getStrikeStandings, serializeStrike } from '../lib/strikes.js';
+import { getChannelRevenueAtRisk } from '../lib/revenue.js';
 import { channelSyncQueue, claimSyncQueue } from '../workers/queue.js';
+import { recordStrike } from '../workers/strike.js';
 
 const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
 });
 
+const createStrikeSchema = z.object({
+  videoId: z.string().optional(),
+  issuedAt: z.coerce.date().refine((date) => date <= new Date(), 'Issue date cannot be in the future'),
+  claimantName: z.string().min(1).max(200).optional(),
+  reason: z.string().max(500).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+const updateStrikeSchema = z.object({
+  courseCompleted: z.boolean().optional(),
+  retracted: z.boolean().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
 export async function channelRoutes(fastify: FastifyInstance) {
   // List user's channels
   fastify.get(
@@ -43,10 +60,18 @@ export async function channelRoutes(fastify: FastifyInstance) {
         orderBy: { createdAt: 'desc' },
       });
 
+      const channelIds = channels.map((c) => c.id);
+      const [standings, revenueAtRisk] = await Promise.all([
+        getStrikeStandings(channelIds),
+        getChannelRevenueAtRisk(channelIds),
+      ]);
+
       return reply.send({
         success: true,
         data: channels.map((c) => ({
           ...c,
+          strikes: standings.get(c.id),
+          estimatedRevenueAtRisk: revenueAtRisk.get(c.id),
           syncedVideoCount: c._count.videos,
           isPartner: c.contentOwnerId !== null,
           contentOwnerId: undefined,
@@ -109,10 +134,17 @@ export async function channelRoutes(fastify: FastifyInstance) {
         _count: true,
       });
 
+      const [standings, revenueAtRisk] = await Promise.all([
+        getStrikeStandings([channelId]),
+        getChannelRevenueAtRisk([channelId]),
+      ]);
+
       return reply.send({
         success: true,
         data: {
           ...channel,
+          strikes: standings.get(channelId),
+          estimatedRevenueAtRisk: revenueAtRisk.get(channelId),
           syncedVideoCount: channel._count.videos,
           eventCounts,
           _count: undefined,
@@ -316,4 +348,203 @@ export async function channelRoutes(fastify: FastifyInstance) {
       });
     }
   );
+
+  // List strikes with their expiry countdown
+  fastify.get(
+    '/:channelId/strikes',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { channelId: string } }>, reply: FastifyReply) => {
+      const { channelId } = request.params;
+      const { userId } = request.user!;
+
+      const channel = await prisma.channel.findFirst({
+        where: { id: channelId, userId },
+        select: { id: true },
+      });
+
+      if (!channel) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Channel not found',
+        });
+      }
+
+      const [strikes, standings] = await Promise.all([
+        prisma.copyrightStrike.findMany({
+          where: { channelId },
+          include: {
+            video: {
+              select: { id: true, youtubeVideoId: true, title: true, thumbnailUrl: true },
+            },
+            claimant: {
+              select: { id: true, name: true },
+            },
+          },
+          orderBy: { issuedAt: 'desc' },
+        }),
+        getStrikeStandings([channelId]),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          ...standings.get(channelId),
+          strikes: strikes.map((strike) => serializeStrike(strike)),
+        },
+      });
+    }
+  );
+
+  // Record a strike from YouTube's notice (takedowns aren't always visible through the API)
+  fastify.post(
+    '/:channelId/strikes',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { channelId: string } }>, reply: FastifyReply) => {
+      const { channelId } = request.params;
+      const { userId } = request.user!;
+      const result = createStrikeSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const channel = await prisma.channel.findFirst({
+        where: { id: channelId, userId },
+        select: { id: true },
+      });
+
+      if (!channel) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Channel not found',
+        });
+      }
+
+      if (result.data.videoId) {
+        const video = await prisma.video.findFirst({
+          where: { id: result.data.videoId, channelId },
+          select: { id: true },
+        });
+
+        if (!video) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Video not found',
+          });
+        }
+      }
+
+      const strike = await recordStrike({
+        channelId,
+        ...result.data,
+        source: 'MANUAL',
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: serializeStrike(strike),
+      });
+    }
+  );
+
+  // Mark Copyright School as completed or record a retraction
+  fastify.patch(
+    '/:channelId/strikes/:strikeId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (
+      request: FastifyRequest<{ Params: { channelId: string; strikeId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { channelId, strikeId } = request.params;
+      const { userId } = request.user!;
+      const result = updateStrikeSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const strike = await prisma.copyrightStrike.findFirst({
+        where: {
+          id: strikeId,
+          channel: { id: channelId, userId },
+        },
+      });
+
+      if (!strike) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Strike not found',
+        });
+      }
+
+      const { courseCompleted, retracted, notes } = result.data;
+      const now = new Date();
+      const data: any = {};
+
+      if (courseCompleted !== undefined) {
+        data.courseCompletedAt = courseCompleted ? strike.courseCompletedAt ?? now : null;
+      }
+
+      // Status follows retraction, then the same expiry rule as the event sweep, so changing
+      // either the retraction or the course recomputes it (un-expiring a strike if needed)
+      const courseCompletedAt =
+        data.courseCompletedAt !== undefined ? data.courseCompletedAt : strike.courseCompletedAt;
+      const isRetracted = retracted ?? strike.status === 'RETRACTED';
+      const status = isRetracted
+        ? 'RETRACTED'
+        : strike.expiresAt <= now && courseCompletedAt
+          ? 'EXPIRED'
+          : 'ACTIVE';
+      const statusChanged = status !== strike.status;
+
+      if (statusChanged) {
+        data.status = status;
+      }
+
+      if (isRetracted !== (strike.status === 'RETRACTED')) {
+        data.retractedAt = isRetracted ? now : null;
+      }
+
+      if (notes !== undefined) {
+        data.notes = notes;
+      }
+
+      const updated = await prisma.copyrightStrike.update({
+        where: { id: strikeId },
+        data,
+      });
+
+      // Keep the strike's event in the feed in sync
+      if (statusChanged && strike.copyrightEventId) {
+        await prisma.copyrightEvent.update({
+          where: { id: strike.copyrightEventId },
+          data:
+            status === 'RETRACTED'
+              ? { status: 'WITHDRAWN', resolvedAt: now }
+              : status === 'EXPIRED'
+                ? { status: 'EXPIRED', resolvedAt: now }
+                : { status: 'ACTIVE', resolvedAt: null },
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: serializeStrike(updated),
+      });
+    }
+  );
 }
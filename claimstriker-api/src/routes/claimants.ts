@@ -0,0 +1,473 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { isUniqueViolation, prisma } from '../config/database.js';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  type: z.enum(['LABEL', 'MCN', 'STUDIO', 'PUBLISHER', 'INDIVIDUAL', 'UNKNOWN']).optional(),
+  riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']).optional(),
+  // Only claimants that have claimed one of the current user's videos
+  mine: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  sortBy: z.enum(['name', 'totalClaims', 'disputeRate', 'overturnRate']).default('totalClaims'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const eventsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(['ACTIVE', 'EXPIRED', 'WITHDRAWN', 'DISPUTED', 'RESOLVED']).optional(),
+});
+
+const reportsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  outcome: z.enum(['OVERTURNED', 'UPHELD', 'WITHDRAWN', 'PENDING']).optional(),
+});
+
+// Fields are optional when prefilled from a resolved dispute
+const createReportSchema = z.object({
+  disputeId: z.string().optional(),
+  outcome: z.enum(['OVERTURNED', 'UPHELD', 'WITHDRAWN', 'PENDING']).optional(),
+  claimDescription: z.string().max(2000).optional(),
+  overturnReason: z.string().max(2000).optional(),
+  comment: z.string().max(5000).optional(),
+  evidenceUrl: z.string().url().optional(),
+});
+
+const DISPUTE_TYPE_REASONS: Record<string, string> = {
+  ORIGINAL_CONTENT: 'Original content',
+  LICENSED: 'Licensed',
+  FAIR_USE: 'Fair use',
+  PUBLIC_DOMAIN: 'Public domain',
+  MISIDENTIFICATION: 'Misidentified match',
+  OTHER: 'Other',
+};
+
+// Public view of a report: never exposes the reporting user
+const publicReportSelect = {
+  id: true,
+  outcome: true,
+  claimDescription: true,
+  overturnReason: true,
+  comment: true,
+  evidenceUrl: true,
+  createdAt: true,
+};
+
+const statisticsSelect = {
+  totalClaims: true,
+  totalDisputes: true,
+  totalOverturned: true,
+  totalUpheld: true,
+  disputeRate: true,
+  overturnRate: true,
+  riskLevel: true,
+  riskExplanation: true,
+  lastCalculatedAt: true,
+};
+
+export async function claimantRoutes(fastify: FastifyInstance) {
+  // List / search claimants
+  fastify.get(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const query = listQuerySchema.parse(request.query);
+
+      const ownEventsWhere = {
+        video: {
+          channel: { userId },
+        },
+      };
+
+      const where: any = {};
+
+      if (query.search) {
+        where.name = { contains: query.search, mode: 'insensitive' };
+      }
+
+      if (query.type) {
+        where.type = query.type;
+      }
+
+      if (query.riskLevel) {
+        where.statistics = { riskLevel: query.riskLevel };
+      }
+
+      if (query.mine) {
+        where.copyrightEvents = { some: ownEventsWhere };
+      }
+
+      const orderBy =
+        query.sortBy === 'name'
+          ? { name: query.sortOrder }
+          : { statistics: { [query.sortBy]: query.sortOrder } };
+
+      const [claimants, total] = await Promise.all([
+        prisma.claimant.findMany({
+          where,
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            website: true,
+            isVerified: true,
+            statistics: {
+              select: statisticsSelect,
+            },
+            _count: {
+              select: {
+                copyrightEvents: { where: ownEventsWhere },
+              },
+            },
+          },
+          orderBy,
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.claimant.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: claimants.map((c) => ({
+          ...c,
+          myEventCount: c._count.copyrightEvents,
+          _count: undefined,
+        })),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    }
+  );
+
+  // Get claimant details with reputation
+  fastify.get(
+    '/:claimantId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { claimantId: string } }>, reply: FastifyReply) => {
+      const { claimantId } = request.params;
+      const { userId } = request.user!;
+
+      const claimant = await prisma.claimant.findUnique({
+        where: { id: claimantId },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          website: true,
+          socialLinks: true,
+          isVerified: true,
+          verifiedAt: true,
+          createdAt: true,
+          statistics: {
+            select: statisticsSelect,
+          },
+        },
+      });
+
+      if (!claimant) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Claimant not found',
+        });
+      }
+
+      const [myEventCounts, reportCounts] = await Promise.all([
+        prisma.copyrightEvent.groupBy({
+          by: ['status'],
+          where: {
+            claimantId,
+            video: {
+              channel: { userId },
+            },
+          },
+          _count: true,
+        }),
+        // Community reports only count once a moderator has approved them
+        prisma.claimantReport.groupBy({
+          by: ['outcome'],
+          where: {
+            claimantId,
+            isApproved: true,
+          },
+          _count: true,
+        }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          ...claimant,
+          myEventCounts: myEventCounts.reduce(
+            (acc, item) => ({ ...acc, [item.status]: item._count }),
+            {} as Record<string, number>
+          ),
+          reportCounts: reportCounts.reduce(
+            (acc, item) => ({ ...acc, [item.outcome]: item._count }),
+            {} as Record<string, number>
+          ),
+        },
+      });
+    }
+  );
+
+  // Events on the current user's videos raised by this claimant
+  fastify.get(
+    '/:claimantId/events',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { claimantId: string } }>, reply: FastifyReply) => {
+      const { claimantId } = request.params;
+      const { userId } = request.user!;
+      const query = eventsQuerySchema.parse(request.query);
+
+      const claimant = await prisma.claimant.findUnique({
+        where: { id: claimantId },
+        select: { id: true },
+      });
+
+      if (!claimant) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Claimant not found',
+        });
+      }
+
+      const where: any = {
+        claimantId,
+        video: {
+          channel: { userId },
+        },
+      };
+
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      const [events, total] = await Promise.all([
+        prisma.copyrightEvent.findMany({
+          where,
+          include: {
+            video: {
+              select: {
+                id: true,
+                youtubeVideoId: true,
+                title: true,
+                thumbnailUrl: true,
+                channel: {
+                  select: {
+                    id: true,
+                    title: true,
+                  },
+                },
+              },
+            },
+            _count: {
+              select: {
+                disputes: true,
+              },
+            },
+          },
+          orderBy: { detectedAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.copyrightEvent.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: events.map((e) => ({
+          ...e,
+          disputeCount: e._count.disputes,
+          _count: undefined,
+        })),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    }
+  );
+
+  // Approved community reports for a claimant (anonymized)
+  fastify.get(
+    '/:claimantId/reports',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { claimantId: string } }>, reply: FastifyReply) => {
+      const { claimantId } = request.params;
+      const query = reportsQuerySchema.parse(request.query);
+
+      const where: any = {
+        claimantId,
+        isApproved: true,
+      };
+
+      if (query.outcome) {
+        where.outcome = query.outcome;
+      }
+
+      const [reports, total] = await Promise.all([
+        prisma.claimantReport.findMany({
+          where,
+          select: publicReportSelect,
+          orderBy: { createdAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.claimantReport.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: reports,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    }
+  );
+
+  // Submit a community report about a claimant
+  fastify.post(
+    '/:claimantId/reports',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { claimantId: string } }>, reply: FastifyReply) => {
+      const { claimantId } = request.params;
+      const { userId } = request.user!;
+      const result = createReportSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const claimant = await prisma.claimant.findUnique({
+        where: { id: claimantId },
+        select: { id: true },
+      });
+
+      if (!claimant) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Claimant not found',
+        });
+      }
+
+      const { disputeId, ...input } = result.data;
+      const data: Record<string, any> = { ...input };
+
+      if (disputeId) {
+        const dispute = await prisma.dispute.findFirst({
+          where: {
+            id: disputeId,
+            userId,
+            copyrightEvent: { claimantId },
+          },
+          include: {
+            copyrightEvent: {
+              select: { claimedContent: true },
+            },
+            report: {
+              select: { id: true },
+            },
+          },
+        });
+
+        if (!dispute) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Dispute not found',
+          });
+        }
+
+        if (dispute.status !== 'WON' && dispute.status !== 'LOST') {
+          return reply.status(400).send({
+            success: false,
+            error: 'Only resolved disputes can be reported',
+          });
+        }
+
+        if (dispute.report) {
+          return reply.status(409).send({
+            success: false,
+            error: 'A report already exists for this dispute',
+            data: { reportId: dispute.report.id },
+          });
+        }
+
+        // Prefill from the dispute; anything the user sent explicitly wins
+        data.disputeId = dispute.id;
+        data.outcome = input.outcome ?? (dispute.status === 'WON' ? 'OVERTURNED' : 'UPHELD');
+        data.claimDescription = input.claimDescription ?? dispute.copyrightEvent.claimedContent;
+        if (data.outcome === 'OVERTURNED' && !input.overturnReason && dispute.disputeType) {
+          data.overturnReason = DISPUTE_TYPE_REASONS[dispute.disputeType];
+        }
+      }
+
+      if (!data.outcome) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Outcome is required when no dispute is linked',
+        });
+      }
+
+      try {
+        const report = await prisma.claimantReport.create({
+          data: {
+            claimantId,
+            userId,
+            outcome: data.outcome,
+            disputeId: data.disputeId,
+            claimDescription: data.claimDescription,
+            overturnReason: data.overturnReason,
+            comment: data.comment,
+            evidenceUrl: data.evidenceUrl,
+          },
+        });
+
+        return reply.status(201).send({
+          success: true,
+          data: report,
+        });
+      } catch (error) {
+        // A concurrent submit reported the same dispute first
+        if (data.disputeId && isUniqueViolation(error)) {
+          return reply.status(409).send({
+            success: false,
+            error: 'A report already exists for this dispute',
+          });
+        }
+        throw error;
+      }
+    }
+  );
+}
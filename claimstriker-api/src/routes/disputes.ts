@@ -0,0 +1,650 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { DisputeStatus, Prisma } from '@prisma/client';
+import { isUniqueViolation, prisma } from '../config/database.js';
+import { generateDisputeText } from '../lib/ai/disputeText.js';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(['DRAFT', 'READY', 'SUBMITTED', 'WON', 'LOST', 'UNKNOWN']).optional(),
+  eventId: z.string().optional(),
+});
+
+const createDisputeSchema = z.object({
+  eventId: z.string(),
+});
+
+const VERSION_SAVE_ATTEMPTS = 3;
+
+// Each wizard step sends only the answers it collected
+const updateDisputeSchema = z.object({
+  disputeType: z
+    .enum([
+      'ORIGINAL_CONTENT',
+      'LICENSED',
+      'FAIR_USE',
+      'PUBLIC_DOMAIN',
+      'MISIDENTIFICATION',
+      'OTHER',
+    ])
+    .nullable()
+    .optional(),
+  isOriginalContent: z.boolean().nullable().optional(),
+  hasLicense: z.boolean().nullable().optional(),
+  isFairUse: z.boolean().nullable().optional(),
+  fairUseType: z
+    .enum(['review', 'commentary', 'parody', 'education', 'news'])
+    .nullable()
+    .optional(),
+  evidenceNotes: z.string().max(5000).nullable().optional(),
+  evidenceFiles: z
+    .array(
+      z.object({
+        name: z.string(),
+        url: z.string().url(),
+        type: z.string().optional(),
+      })
+    )
+    .nullable()
+    .optional(),
+  userNotes: z.string().max(5000).nullable().optional(),
+  finalText: z.string().max(20000).nullable().optional(),
+});
+
+const updateStatusSchema = z.object({
+  status: z.enum(['DRAFT', 'READY', 'SUBMITTED', 'WON', 'LOST', 'UNKNOWN']),
+});
+
+/**
+ * Allowed dispute status transitions.
+ * DRAFT -> READY -> SUBMITTED -> WON/LOST/UNKNOWN, with READY able to go back to DRAFT
+ * and UNKNOWN able to be resolved later once the outcome is known.
+ */
+const STATUS_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  DRAFT: ['READY'],
+  READY: ['DRAFT', 'SUBMITTED'],
+  SUBMITTED: ['WON', 'LOST', 'UNKNOWN'],
+  WON: [],
+  LOST: [],
+  UNKNOWN: ['WON', 'LOST'],
+};
+
+// Wizard answers can only be edited before the dispute is submitted
+const EDITABLE_STATUSES: DisputeStatus[] = ['DRAFT', 'READY'];
+
+const OPEN_STATUSES: DisputeStatus[] = ['DRAFT', 'READY', 'SUBMITTED', 'UNKNOWN'];
+
+const eventSelect = {
+  id: true,
+  type: true,
+  status: true,
+  claimType: true,
+  contentType: true,
+  claimedContent: true,
+  policyAction: true,
+  matchStartMs: true,
+  matchEndMs: true,
+  detectedAt: true,
+  claimant: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+    },
+  },
+  video: {
+    select: {
+      id: true,
+      youtubeVideoId: true,
+      title: true,
+      thumbnailUrl: true,
+    },
+  },
+};
+
+export async function disputeRoutes(fastify: FastifyInstance) {
+  // List user's disputes
+  fastify.get(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const query = listQuerySchema.parse(request.query);
+
+      const where: any = { userId };
+
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      if (query.eventId) {
+        where.copyrightEventId = query.eventId;
+      }
+
+      const [disputes, total] = await Promise.all([
+        prisma.dispute.findMany({
+          where,
+          include: {
+            copyrightEvent: {
+              select: eventSelect,
+            },
+          },
+          orderBy: { updatedAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.dispute.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: disputes,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    }
+  );
+
+  // Start a dispute for a copyright event
+  fastify.post(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = createDisputeSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const { eventId } = result.data;
+
+      const event = await prisma.copyrightEvent.findFirst({
+        where: {
+          id: eventId,
+          video: {
+            channel: { userId },
+          },
+        },
+      });
+
+      if (!event) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Event not found',
+        });
+      }
+
+      // Only one open dispute per event
+      const openDispute = await prisma.dispute.findFirst({
+        where: {
+          copyrightEventId: eventId,
+          userId,
+          status: { in: OPEN_STATUSES },
+        },
+      });
+
+      if (openDispute) {
+        return reply.status(409).send({
+          success: false,
+          error: 'An open dispute already exists for this event',
+          data: { disputeId: openDispute.id },
+        });
+      }
+
+      const dispute = await prisma.dispute.create({
+        data: {
+          copyrightEventId: eventId,
+          userId,
+        },
+        include: {
+          copyrightEvent: {
+            select: eventSelect,
+          },
+        },
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: dispute,
+      });
+    }
+  );
+
+  // Get dispute details
+  fastify.get(
+    '/:disputeId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { disputeId: string } }>, reply: FastifyReply) => {
+      const { disputeId } = request.params;
+      const { userId } = request.user!;
+
+      const dispute = await prisma.dispute.findFirst({
+        where: {
+          id: disputeId,
+          userId,
+        },
+        include: {
+          copyrightEvent: {
+            select: {
+              ...eventSelect,
+              explanation: true,
+              affectedRegions: true,
+              monetizationImpact: true,
+              viewabilityImpact: true,
+            },
+          },
+        },
+      });
+
+      if (!dispute) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Dispute not found',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: dispute,
+      });
+    }
+  );
+
+  // Save wizard answers
+  fastify.patch(
+    '/:disputeId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { disputeId: string } }>, reply: FastifyReply) => {
+      const { disputeId } = request.params;
+      const { userId } = request.user!;
+      const result = updateDisputeSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const dispute = await prisma.dispute.findFirst({
+        where: {
+          id: disputeId,
+          userId,
+        },
+      });
+
+      if (!dispute) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Dispute not found',
+        });
+      }
+
+      if (!EDITABLE_STATUSES.includes(dispute.status)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Dispute can no longer be edited',
+        });
+      }
+
+      const { evidenceFiles, ...answers } = result.data;
+
+      // A ready dispute was checked for a type and text, so changing its content sends it
+      // back to draft to be marked ready again
+      const contentChanged =
+        Object.entries(answers).some(
+          ([key, value]) => value !== undefined && value !== dispute[key as keyof typeof answers]
+        ) ||
+        (evidenceFiles !== undefined &&
+          JSON.stringify(evidenceFiles) !== JSON.stringify(dispute.evidenceFiles));
+
+      const updated = await prisma.dispute.update({
+        where: { id: disputeId },
+        data: {
+          ...answers,
+          ...(dispute.status === 'READY' && contentChanged && { status: 'DRAFT' as const }),
+          // Prisma needs an explicit JSON null sentinel for nullable Json columns
+          ...(evidenceFiles !== undefined && {
+            evidenceFiles: evidenceFiles === null ? Prisma.JsonNull : evidenceFiles,
+          }),
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+
+  // Move dispute through its lifecycle
+  fastify.patch(
+    '/:disputeId/status',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { disputeId: string } }>, reply: FastifyReply) => {
+      const { disputeId } = request.params;
+      const { userId } = request.user!;
+      const result = updateStatusSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const { status: newStatus } = result.data;
+
+      const dispute = await prisma.dispute.findFirst({
+        where: {
+          id: disputeId,
+          userId,
+        },
+      });
+
+      if (!dispute) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Dispute not found',
+        });
+      }
+
+      if (!STATUS_TRANSITIONS[dispute.status].includes(newStatus)) {
+        return reply.status(400).send({
+          success: false,
+          error: `Cannot move dispute from ${dispute.status} to ${newStatus}`,
+        });
+      }
+
+      // A dispute needs a basis and text before it can be marked ready
+      if (newStatus === 'READY') {
+        if (!dispute.disputeType) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Select a dispute type before marking the dispute ready',
+          });
+        }
+
+        if (!dispute.finalText && !dispute.generatedText) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Dispute text is required before marking the dispute ready',
+          });
+        }
+      }
+
+      const now = new Date();
+      const data: any = { status: newStatus };
+
+      if (newStatus === 'SUBMITTED') {
+        data.submittedAt = now;
+        // Freeze the text that was actually submitted
+        data.finalText = dispute.finalText || dispute.generatedText;
+      }
+
+      if (newStatus === 'WON' || newStatus === 'LOST') {
+        data.resolvedAt = now;
+        data.resolution = newStatus.toLowerCase();
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const saved = await tx.dispute.update({
+          where: { id: disputeId },
+          data,
+        });
+
+        // Keep the event status in line with the dispute
+        if (newStatus === 'SUBMITTED') {
+          await tx.copyrightEvent.update({
+            where: { id: dispute.copyrightEventId },
+            data: { status: 'DISPUTED' },
+          });
+        } else if (newStatus === 'WON') {
+          await tx.copyrightEvent.update({
+            where: { id: dispute.copyrightEventId },
+            data: { status: 'RESOLVED', resolvedAt: now },
+          });
+        } else if (newStatus === 'LOST') {
+          await tx.copyrightEvent.update({
+            where: { id: dispute.copyrightEventId },
+            data: { status: 'ACTIVE', resolvedAt: null },
+          });
+        }
+
+        return saved;
+      });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+
+  // Generate (or regenerate) dispute text from the wizard answers
+  fastify.post(
+    '/:disputeId/generate',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { disputeId: string } }>, reply: FastifyReply) => {
+      const { disputeId } = request.params;
+      const { userId } = request.user!;
+
+      const dispute = await prisma.dispute.findFirst({
+        where: {
+          id: disputeId,
+          userId,
+        },
+        include: {
+          copyrightEvent: {
+            include: {
+              claimant: { select: { name: true } },
+              video: { select: { title: true } },
+            },
+          },
+        },
+      });
+
+      if (!dispute) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Dispute not found',
+        });
+      }
+
+      if (!EDITABLE_STATUSES.includes(dispute.status)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Dispute can no longer be edited',
+        });
+      }
+
+      if (!dispute.disputeType) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Select a dispute type before generating text',
+        });
+      }
+
+      const event = dispute.copyrightEvent;
+
+      let generated;
+      try {
+        generated = await generateDisputeText({
+          videoTitle: event.video.title,
+          claimantName: event.claimant?.name,
+          claimedContent: event.claimedContent,
+          contentType: event.contentType,
+          policyAction: event.policyAction,
+          matchStartMs: event.matchStartMs,
+          matchEndMs: event.matchEndMs,
+          disputeType: dispute.disputeType,
+          isOriginalContent: dispute.isOriginalContent,
+          hasLicense: dispute.hasLicense,
+          isFairUse: dispute.isFairUse,
+          fairUseType: dispute.fairUseType,
+          evidenceNotes: dispute.evidenceNotes,
+          userNotes: dispute.userNotes,
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(502).send({
+          success: false,
+          error: 'Failed to generate dispute text',
+        });
+      }
+
+      // Numbers are taken from the latest version, so a concurrent generate can take the
+      // same one; the unique constraint rejects it and we retry with the next number
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const version = await prisma.$transaction(async (tx) => {
+            const latest = await tx.disputeTextVersion.findFirst({
+              where: { disputeId },
+              orderBy: { version: 'desc' },
+              select: { version: true },
+            });
+
+            const created = await tx.disputeTextVersion.create({
+              data: {
+                disputeId,
+                version: (latest?.version ?? 0) + 1,
+                text: generated.text,
+                provider: generated.provider,
+                model: generated.model,
+              },
+            });
+
+            await tx.dispute.update({
+              where: { id: disputeId },
+              data: {
+                generatedText: generated.text,
+                // New text needs another review, like any content edit
+                ...(dispute.status === 'READY' && { status: 'DRAFT' as const }),
+              },
+            });
+
+            return created;
+          });
+
+          return reply.send({
+            success: true,
+            data: version,
+          });
+        } catch (error) {
+          if (!isUniqueViolation(error)) {
+            throw error;
+          }
+          if (attempt >= VERSION_SAVE_ATTEMPTS) {
+            return reply.status(409).send({
+              success: false,
+              error: 'Dispute text is being generated by another request',
+            });
+          }
+        }
+      }
+    }
+  );
+
+  // List generated text versions for comparison
+  fastify.get(
+    '/:disputeId/versions',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { disputeId: string } }>, reply: FastifyReply) => {
+      const { disputeId } = request.params;
+      const { userId } = request.user!;
+
+      const dispute = await prisma.dispute.findFirst({
+        where: {
+          id: disputeId,
+          userId,
+        },
+        select: { id: true },
+      });
+
+      if (!dispute) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Dispute not found',
+        });
+      }
+
+      const versions = await prisma.disputeTextVersion.findMany({
+        where: { disputeId },
+        orderBy: { version: 'desc' },
+      });
+
+      return reply.send({
+        success: true,
+        data: versions,
+      });
+    }
+  );
+
+  // Delete a dispute that has not been submitted
+  fastify.delete(
+    '/:disputeId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { disputeId: string } }>, reply: FastifyReply) => {
+      const { disputeId } = request.params;
+      const { userId } = request.user!;
+
+      const dispute = await prisma.dispute.findFirst({
+        where: {
+          id: disputeId,
+          userId,
+        },
+      });
+
+      if (!dispute) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Dispute not found',
+        });
+      }
+
+      if (!EDITABLE_STATUSES.includes(dispute.status)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Submitted disputes cannot be deleted',
+        });
+      }
+
+      await prisma.dispute.delete({
+        where: { id: disputeId },
+      });
+
+      return reply.send({
+        success: true,
+        data: { message: 'Dispute deleted' },
+      });
+    }
+  );
+}
@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
+import { getStrikeStandings } from '../lib/strikes.js';
+import { estimateRevenueAtRisk } from '../lib/revenue.js';
 import type { DashboardSummary } from '../types/index.js';
 
 const listQuerySchema = z.object({
@@ -31,22 +33,16 @@ export async function eventRoutes(fastify: FastifyInstance) {
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
       const [
-        activeStrikes,
+        channels,
         activeClaims,
         pendingDisputes,
         claimsLast30Days,
-        channelCount,
         videoCount,
       ] = await Promise.all([
-        // Active strikes
-        prisma.copyrightEvent.count({
-          where: {
-            type: 'STRIKE',
-            status: 'ACTIVE',
-            video: {
-              channel: { userId },
-            },
-          },
+        // Channels, for per-channel strike standing
+        prisma.channel.findMany({
+          where: { userId },
+          select: { id: true, title: true },
         }),
         // Active claims
         prisma.copyrightEvent.count({
@@ -74,10 +70,6 @@ export async function eventRoutes(fastify: FastifyInstance) {
             },
           },
         }),
-        // Channel count
-        prisma.channel.count({
-          where: { userId },
-        }),
         // Video count
         prisma.video.count({
           where: {
@@ -86,13 +78,22 @@ export async function eventRoutes(fastify: FastifyInstance) {
         }),
       ]);
 
+      // Active strikes
+      const standings = await getStrikeStandings(channels.map((c) => c.id));
+      const strikesByChannel = channels.map((channel) => ({
+        channelId: channel.id,
+        title: channel.title,
+        ...standings.get(channel.id)!,
+      }));
+
       const summary: DashboardSummary = {
-        activeStrikes,
+        activeStrikes: strikesByChannel.reduce((sum, c) => sum + c.activeStrikes, 0),
         activeClaims,
         pendingDisputes,
         claimsLast30Days,
-        channelCount,
+        channelCount: channels.length,
         videoCount,
+        strikesByChannel,
       };
 
       return reply.send({
@@ -163,6 +164,7 @@ export async function eventRoutes(fastify: FastifyInstance) {
                 youtubeVideoId: true,
                 title: true,
                 thumbnailUrl: true,
+                viewCount: true,
                 channel: {
                   select: {
                     id: true,
@@ -178,6 +180,17 @@ export async function eventRoutes(fastify: FastifyInstance) {
                 type: true,
               },
             },
+            matchSegments: {
+              select: {
+                position: true,
+                videoStartMs: true,
+                videoEndMs: true,
+                referenceStartMs: true,
+                referenceEndMs: true,
+                channel: true,
+              },
+              orderBy: { position: 'asc' },
+            },
             _count: {
               select: {
                 disputes: true,
@@ -195,6 +208,7 @@ export async function eventRoutes(fastify: FastifyInstance) {
         success: true,
         data: events.map((e) => ({
           ...e,
+          estimatedRevenueAtRisk: estimateRevenueAtRisk(e.video.viewCount, e.atRiskRpm),
           disputeCount: e._count.disputes,
           _count: undefined,
         })),
@@ -247,6 +261,27 @@ export async function eventRoutes(fastify: FastifyInstance) {
           disputes: {
             orderBy: { createdAt: 'desc' },
           },
+          matchSegments: {
+            select: {
+              position: true,
+              videoStartMs: true,
+              videoEndMs: true,
+              referenceStartMs: true,
+              referenceEndMs: true,
+              channel: true,
+            },
+            orderBy: { position: 'asc' },
+          },
+          history: {
+            select: {
+              id: true,
+              eventType: true,
+              occurredAt: true,
+              source: true,
+              reason: true,
+            },
+            orderBy: { occurredAt: 'asc' },
+          },
         },
       });
 
@@ -259,7 +294,10 @@ export async function eventRoutes(fastify: FastifyInstance) {
 
       return reply.send({
         success: true,
-        data: event,
+        data: {
+          ...event,
+          estimatedRevenueAtRisk: estimateRevenueAtRisk(event.video.viewCount, event.atRiskRpm),
+        },
       });
     }
   );
@@ -0,0 +1,257 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { decrypt, encrypt } from '../lib/encryption.js';
+import { isValidChatWebhookUrl, sendChatNotification } from '../lib/chat/send.js';
+
+const MAX_INTEGRATIONS_PER_USER = 10;
+
+const notificationTypes = z
+  .array(
+    z.enum([
+      'NEW_CLAIM',
+      'NEW_STRIKE',
+      'MONETIZATION_CHANGE',
+      'DISPUTE_UPDATE',
+      'SYNC_ERROR',
+      'WEEKLY_SUMMARY',
+    ])
+  )
+  .min(1);
+
+const createIntegrationSchema = z
+  .object({
+    provider: z.enum(['SLACK', 'DISCORD']),
+    name: z.string().max(100).optional(),
+    webhookUrl: z.string().url(),
+    notificationTypes: notificationTypes.optional(),
+  })
+  .refine((data) => isValidChatWebhookUrl(data.provider, data.webhookUrl), {
+    message: 'Not a valid incoming webhook URL for this provider',
+    path: ['webhookUrl'],
+  });
+
+const updateIntegrationSchema = z.object({
+  name: z.string().max(100).nullable().optional(),
+  webhookUrl: z.string().url().optional(),
+  notificationTypes: notificationTypes.optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Never return the webhook URL, it grants posting access to the channel
+const integrationSelect = {
+  id: true,
+  provider: true,
+  name: true,
+  notificationTypes: true,
+  isActive: true,
+  lastDeliveredAt: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+export async function integrationRoutes(fastify: FastifyInstance) {
+  // List integrations
+  fastify.get(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+
+      const integrations = await prisma.chatIntegration.findMany({
+        where: { userId },
+        select: integrationSelect,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return reply.send({
+        success: true,
+        data: integrations,
+      });
+    }
+  );
+
+  // Connect a Slack or Discord incoming webhook
+  fastify.post(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = createIntegrationSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const count = await prisma.chatIntegration.count({ where: { userId } });
+
+      if (count >= MAX_INTEGRATIONS_PER_USER) {
+        return reply.status(400).send({
+          success: false,
+          error: `You can connect at most ${MAX_INTEGRATIONS_PER_USER} chat integrations`,
+        });
+      }
+
+      const integration = await prisma.chatIntegration.create({
+        data: {
+          userId,
+          provider: result.data.provider,
+          name: result.data.name,
+          webhookUrl: encrypt(result.data.webhookUrl),
+          notificationTypes: result.data.notificationTypes,
+        },
+        select: integrationSelect,
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: integration,
+      });
+    }
+  );
+
+  // Update an integration
+  fastify.patch(
+    '/:integrationId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { integrationId: string } }>, reply: FastifyReply) => {
+      const { integrationId } = request.params;
+      const { userId } = request.user!;
+      const result = updateIntegrationSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const integration = await prisma.chatIntegration.findFirst({
+        where: { id: integrationId, userId },
+      });
+
+      if (!integration) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Integration not found',
+        });
+      }
+
+      const { webhookUrl, ...data } = result.data;
+
+      if (webhookUrl && !isValidChatWebhookUrl(integration.provider, webhookUrl)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Not a valid incoming webhook URL for this provider',
+        });
+      }
+
+      const updated = await prisma.chatIntegration.update({
+        where: { id: integrationId },
+        data: {
+          ...data,
+          ...(webhookUrl && { webhookUrl: encrypt(webhookUrl), lastError: null }),
+        },
+        select: integrationSelect,
+      });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+
+  // Disconnect an integration
+  fastify.delete(
+    '/:integrationId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { integrationId: string } }>, reply: FastifyReply) => {
+      const { integrationId } = request.params;
+      const { userId } = request.user!;
+
+      const { count } = await prisma.chatIntegration.deleteMany({
+        where: { id: integrationId, userId },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Integration not found',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Integration removed' },
+      });
+    }
+  );
+
+  // Post a sample message so the user can check the channel
+  fastify.post(
+    '/:integrationId/test',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { integrationId: string } }>, reply: FastifyReply) => {
+      const { integrationId } = request.params;
+      const { userId } = request.user!;
+
+      const integration = await prisma.chatIntegration.findFirst({
+        where: { id: integrationId, userId },
+      });
+
+      if (!integration) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Integration not found',
+        });
+      }
+
+      try {
+        await sendChatNotification(integration.provider, decrypt(integration.webhookUrl), {
+          type: 'NEW_CLAIM',
+          title: 'Test notification',
+          message: 'ClaimStriker is connected. Alerts for your channels will appear here.',
+          createdAt: new Date(),
+        });
+      } catch (error: any) {
+        await prisma.chatIntegration.update({
+          where: { id: integrationId },
+          data: { lastError: error.message },
+        });
+
+        return reply.status(502).send({
+          success: false,
+          error: `Test message failed: ${error.message}`,
+        });
+      }
+
+      const updated = await prisma.chatIntegration.update({
+        where: { id: integrationId },
+        data: { lastDeliveredAt: new Date(), lastError: null },
+        select: integrationSelect,
+      });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+}
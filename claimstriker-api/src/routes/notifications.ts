@@ -0,0 +1,342 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import {
+  NO_DIGEST_TYPES,
+  getAllDeliveryModes,
+  isValidTimezone,
+} from '../lib/notificationPreferences.js';
+
+const notificationTypes = [
+  'NEW_CLAIM',
+  'NEW_STRIKE',
+  'MONETIZATION_CHANGE',
+  'DISPUTE_UPDATE',
+  'SYNC_ERROR',
+  'WEEKLY_SUMMARY',
+] as const;
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  unread: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  type: z.enum(notificationTypes).optional(),
+});
+
+const markReadSchema = z.object({
+  // Omit to mark every notification as read
+  ids: z.array(z.string()).min(1).max(100).optional(),
+});
+
+const updatePreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z
+        .object({
+          type: z.enum(notificationTypes),
+          delivery: z.enum(['EMAIL', 'IN_APP', 'DIGEST_ONLY', 'OFF']),
+        })
+        .refine(
+          (pref) => pref.delivery !== 'DIGEST_ONLY' || !NO_DIGEST_TYPES.includes(pref.type),
+          {
+            message: 'This notification type is not included in the weekly digest',
+            path: ['delivery'],
+          }
+        )
+    )
+    .optional(),
+  quietHours: z
+    .object({
+      enabled: z.boolean(),
+      start: timeOfDay,
+      end: timeOfDay,
+      timezone: z.string().refine(isValidTimezone, 'Unknown timezone'),
+    })
+    .optional(),
+});
+
+const defaultQuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '08:00',
+  timezone: 'UTC',
+};
+
+async function loadPreferences(userId: string) {
+  const [delivery, settings] = await Promise.all([
+    getAllDeliveryModes(userId),
+    prisma.notificationSettings.findUnique({ where: { userId } }),
+  ]);
+
+  return {
+    preferences: notificationTypes.map((type) => ({ type, delivery: delivery[type] })),
+    quietHours: settings
+      ? {
+          enabled: settings.quietHoursEnabled,
+          start: settings.quietHoursStart,
+          end: settings.quietHoursEnd,
+          timezone: settings.timezone,
+        }
+      : defaultQuietHours,
+  };
+}
+
+export async function notificationRoutes(fastify: FastifyInstance) {
+  // List notifications
+  fastify.get(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const query = listQuerySchema.parse(request.query);
+
+      const where: any = { userId };
+
+      if (query.unread) {
+        where.isRead = false;
+      }
+
+      if (query.type) {
+        where.type = query.type;
+      }
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({
+          where: { userId, isRead: false },
+        }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          notifications,
+          unreadCount,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            totalPages: Math.ceil(total / query.limit),
+          },
+        },
+      });
+    }
+  );
+
+  // Get delivery preferences and quiet hours
+  fastify.get(
+    '/preferences',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+
+      return reply.send({
+        success: true,
+        data: await loadPreferences(userId),
+      });
+    }
+  );
+
+  // Update delivery preferences and/or quiet hours
+  fastify.put(
+    '/preferences',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = updatePreferencesSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const { preferences, quietHours } = result.data;
+
+      await prisma.$transaction([
+        ...(preferences || []).map(({ type, delivery }) =>
+          prisma.notificationPreference.upsert({
+            where: { userId_type: { userId, type } },
+            create: { userId, type, delivery },
+            update: { delivery },
+          })
+        ),
+        ...(quietHours
+          ? [
+              prisma.notificationSettings.upsert({
+                where: { userId },
+                create: {
+                  userId,
+                  quietHoursEnabled: quietHours.enabled,
+                  quietHoursStart: quietHours.start,
+                  quietHoursEnd: quietHours.end,
+                  timezone: quietHours.timezone,
+                },
+                update: {
+                  quietHoursEnabled: quietHours.enabled,
+                  quietHoursStart: quietHours.start,
+                  quietHoursEnd: quietHours.end,
+                  timezone: quietHours.timezone,
+                },
+              }),
+            ]
+          : []),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: await loadPreferences(userId),
+      });
+    }
+  );
+
+  // Unread count (polled by the notification bell)
+  fastify.get(
+    '/unread-count',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+
+      const count = await prisma.notification.count({
+        where: { userId, isRead: false },
+      });
+
+      return reply.send({
+        success: true,
+        data: { count },
+      });
+    }
+  );
+
+  // Mark notifications as read (bulk)
+  fastify.post(
+    '/read',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = markReadSchema.safeParse(request.body ?? {});
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const { ids } = result.data;
+
+      const { count } = await prisma.notification.updateMany({
+        where: {
+          userId,
+          isRead: false,
+          ...(ids && { id: { in: ids } }),
+        },
+        data: {
+          isRead: true,
+          readAt: new Date(),
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: { updated: count },
+      });
+    }
+  );
+
+  // Mark a single notification as read
+  fastify.patch(
+    '/:notificationId/read',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (
+      request: FastifyRequest<{ Params: { notificationId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { notificationId } = request.params;
+      const { userId } = request.user!;
+
+      const notification = await prisma.notification.findFirst({
+        where: { id: notificationId, userId },
+      });
+
+      if (!notification) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Notification not found',
+        });
+      }
+
+      const updated = notification.isRead
+        ? notification
+        : await prisma.notification.update({
+            where: { id: notificationId },
+            data: {
+              isRead: true,
+              readAt: new Date(),
+            },
+          });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+
+  // Delete a notification
+  fastify.delete(
+    '/:notificationId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (
+      request: FastifyRequest<{ Params: { notificationId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { notificationId } = request.params;
+      const { userId } = request.user!;
+
+      const { count } = await prisma.notification.deleteMany({
+        where: { id: notificationId, userId },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Notification not found',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Notification deleted' },
+      });
+    }
+  );
+}
@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
+import { estimateRevenueAtRisk } from '../lib/revenue.js';
+import { mergeRegionActions, type RegionActions } from '../lib/youtube/policy.js';
 
 const listQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -109,8 +111,11 @@ export async function videoRoutes(fastify: FastifyInstance) {
             monetizationImpact: true,
             viewabilityImpact: true,
             affectedRegions: true,
+            atRiskRpm: true,
             matchStartMs: true,
             matchEndMs: true,
+            totalMatchMs: true,
+            matchPercent: true,
             explanation: true,
             detectedAt: true,
             resolvedAt: true,
@@ -156,7 +161,10 @@ export async function videoRoutes(fastify: FastifyInstance) {
           data: paginatedVideos.map((v) => ({
             ...v,
             eventCount: v._count.copyrightEvents,
-            events: v.copyrightEvents,
+            events: v.copyrightEvents.map((e) => ({
+              ...e,
+              estimatedRevenueAtRisk: estimateRevenueAtRisk(v.viewCount, e.atRiskRpm),
+            })),
             youtubeUrl: `https://www.youtube.com/watch?v=${v.youtubeVideoId}`,
             isShort: isShortVideo(v.duration),
             durationSeconds: parseDurationToSeconds(v.duration),
@@ -189,7 +197,10 @@ export async function videoRoutes(fastify: FastifyInstance) {
         data: videos.map((v) => ({
           ...v,
           eventCount: v._count.copyrightEvents,
-          events: v.copyrightEvents,
+          events: v.copyrightEvents.map((e) => ({
+            ...e,
+            estimatedRevenueAtRisk: estimateRevenueAtRisk(v.viewCount, e.atRiskRpm),
+          })),
           youtubeUrl: `https://www.youtube.com/watch?v=${v.youtubeVideoId}`,
           isShort: isShortVideo(v.duration),
           durationSeconds: parseDurationToSeconds(v.duration),
@@ -240,6 +251,17 @@ export async function videoRoutes(fastify: FastifyInstance) {
                   type: true,
                 },
               },
+              matchSegments: {
+                select: {
+                  position: true,
+                  videoStartMs: true,
+                  videoEndMs: true,
+                  referenceStartMs: true,
+                  referenceEndMs: true,
+                  channel: true,
+                },
+                orderBy: { position: 'asc' },
+              },
               _count: {
                 select: {
                   disputes: true,
@@ -263,8 +285,10 @@ export async function videoRoutes(fastify: FastifyInstance) {
         data: {
           ...video,
           youtubeUrl: `https://www.youtube.com/watch?v=${video.youtubeVideoId}`,
+          durationSeconds: parseDurationToSeconds(video.duration),
           copyrightEvents: video.copyrightEvents.map((e) => ({
             ...e,
+            estimatedRevenueAtRisk: estimateRevenueAtRisk(video.viewCount, e.atRiskRpm),
             disputeCount: e._count.disputes,
             _count: undefined,
           })),
@@ -273,6 +297,78 @@ export async function videoRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Where the video is monetized, tracked or blocked across its open claims
+  fastify.get(
+    '/:videoId/regions',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { videoId: string } }>, reply: FastifyReply) => {
+      const { videoId } = request.params;
+      const { userId } = request.user!;
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          channel: {
+            userId,
+          },
+        },
+        select: {
+          id: true,
+          blockedRegions: true,
+          copyrightEvents: {
+            where: {
+              youtubeClaimId: { not: null },
+              status: { in: ['ACTIVE', 'DISPUTED'] },
+            },
+            select: {
+              id: true,
+              status: true,
+              claimedContent: true,
+              policyAction: true,
+              regionActions: true,
+              claimant: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+            orderBy: { detectedAt: 'desc' },
+          },
+        },
+      });
+
+      if (!video) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Video not found',
+        });
+      }
+
+      const claims = video.copyrightEvents.filter((e) => e.regionActions !== null);
+      const regions = mergeRegionActions([
+        ...claims.map((e) => e.regionActions as unknown as RegionActions),
+        // Blocks reported by the Data API, which may predate or outlive a claim we know about
+        {
+          default: null,
+          territories: Object.fromEntries(video.blockedRegions.map((c) => [c, 'block'])),
+        },
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          videoId: video.id,
+          ...regions,
+          blockedRegions: video.blockedRegions,
+          claims,
+        },
+      });
+    }
+  );
+
   // Get video by YouTube ID
   fastify.get(
     '/youtube/:youtubeVideoId',
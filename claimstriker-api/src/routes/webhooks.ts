@@ -0,0 +1,407 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { encrypt } from '../lib/encryption.js';
+import { WEBHOOK_EVENTS, checkWebhookUrl, generateWebhookSecret } from '../lib/webhooks.js';
+import { queueWebhookDelivery } from '../workers/webhook.js';
+
+const MAX_ENDPOINTS_PER_USER = 10;
+
+const webhookUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https');
+
+const createEndpointSchema = z.object({
+  url: webhookUrl,
+  description: z.string().max(200).optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENTS)).default([]),
+});
+
+const updateEndpointSchema = z.object({
+  url: webhookUrl.optional(),
+  description: z.string().max(200).nullable().optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENTS)).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']).optional(),
+});
+
+// Never return the encrypted secret
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  eventTypes: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+export async function webhookRoutes(fastify: FastifyInstance) {
+  // List available webhook events
+  fastify.get(
+    '/events',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send({
+        success: true,
+        data: WEBHOOK_EVENTS,
+      });
+    }
+  );
+
+  // List endpoints
+  fastify.get(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { userId },
+        select: {
+          ...endpointSelect,
+          deliveries: {
+            select: {
+              id: true,
+              eventType: true,
+              status: true,
+              responseStatus: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return reply.send({
+        success: true,
+        data: endpoints.map(({ deliveries, ...endpoint }) => ({
+          ...endpoint,
+          lastDelivery: deliveries[0] || null,
+        })),
+      });
+    }
+  );
+
+  // Register an endpoint; the signing secret is only returned here and on rotation
+  fastify.post(
+    '/',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request.user!;
+      const result = createEndpointSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const urlError = await checkWebhookUrl(result.data.url);
+
+      if (urlError) {
+        return reply.status(400).send({
+          success: false,
+          error: urlError,
+        });
+      }
+
+      const count = await prisma.webhookEndpoint.count({ where: { userId } });
+
+      if (count >= MAX_ENDPOINTS_PER_USER) {
+        return reply.status(400).send({
+          success: false,
+          error: `You can register at most ${MAX_ENDPOINTS_PER_USER} webhook endpoints`,
+        });
+      }
+
+      const secret = generateWebhookSecret();
+
+      const endpoint = await prisma.webhookEndpoint.create({
+        data: {
+          userId,
+          url: result.data.url,
+          description: result.data.description,
+          eventTypes: result.data.eventTypes,
+          secret: encrypt(secret),
+        },
+        select: endpointSelect,
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: { ...endpoint, secret },
+      });
+    }
+  );
+
+  // Update an endpoint
+  fastify.patch(
+    '/:endpointId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { endpointId: string } }>, reply: FastifyReply) => {
+      const { endpointId } = request.params;
+      const { userId } = request.user!;
+      const result = updateEndpointSchema.safeParse(request.body);
+
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: result.error.flatten(),
+        });
+      }
+
+      const endpoint = await prisma.webhookEndpoint.findFirst({
+        where: { id: endpointId, userId },
+      });
+
+      if (!endpoint) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Webhook endpoint not found',
+        });
+      }
+
+      const urlError = result.data.url ? await checkWebhookUrl(result.data.url) : null;
+
+      if (urlError) {
+        return reply.status(400).send({
+          success: false,
+          error: urlError,
+        });
+      }
+
+      const updated = await prisma.webhookEndpoint.update({
+        where: { id: endpointId },
+        data: result.data,
+        select: endpointSelect,
+      });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    }
+  );
+
+  // Delete an endpoint
+  fastify.delete(
+    '/:endpointId',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { endpointId: string } }>, reply: FastifyReply) => {
+      const { endpointId } = request.params;
+      const { userId } = request.user!;
+
+      const { count } = await prisma.webhookEndpoint.deleteMany({
+        where: { id: endpointId, userId },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Webhook endpoint not found',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Webhook endpoint deleted' },
+      });
+    }
+  );
+
+  // Rotate the signing secret
+  fastify.post(
+    '/:endpointId/rotate-secret',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { endpointId: string } }>, reply: FastifyReply) => {
+      const { endpointId } = request.params;
+      const { userId } = request.user!;
+
+      const endpoint = await prisma.webhookEndpoint.findFirst({
+        where: { id: endpointId, userId },
+      });
+
+      if (!endpoint) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Webhook endpoint not found',
+        });
+      }
+
+      const secret = generateWebhookSecret();
+
+      const updated = await prisma.webhookEndpoint.update({
+        where: { id: endpointId },
+        data: { secret: encrypt(secret) },
+        select: endpointSelect,
+      });
+
+      return reply.send({
+        success: true,
+        data: { ...updated, secret },
+      });
+    }
+  );
+
+  // Send a test event
+  fastify.post(
+    '/:endpointId/test',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { endpointId: string } }>, reply: FastifyReply) => {
+      const { endpointId } = request.params;
+      const { userId } = request.user!;
+
+      const endpoint = await prisma.webhookEndpoint.findFirst({
+        where: { id: endpointId, userId },
+      });
+
+      if (!endpoint) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Webhook endpoint not found',
+        });
+      }
+
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          endpointId,
+          eventType: 'webhook.test',
+          payload: {
+            message: 'This is a test event from ClaimStriker.',
+            endpointId,
+          },
+        },
+      });
+
+      await queueWebhookDelivery(delivery.id);
+
+      return reply.status(202).send({
+        success: true,
+        data: { deliveryId: delivery.id },
+      });
+    }
+  );
+
+  // Delivery log
+  fastify.get(
+    '/:endpointId/deliveries',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (request: FastifyRequest<{ Params: { endpointId: string } }>, reply: FastifyReply) => {
+      const { endpointId } = request.params;
+      const { userId } = request.user!;
+      const query = deliveriesQuerySchema.parse(request.query);
+
+      const endpoint = await prisma.webhookEndpoint.findFirst({
+        where: { id: endpointId, userId },
+        select: { id: true },
+      });
+
+      if (!endpoint) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Webhook endpoint not found',
+        });
+      }
+
+      const where: any = { endpointId };
+
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.webhookDelivery.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: deliveries,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    }
+  );
+
+  // Retry a delivery
+  fastify.post(
+    '/:endpointId/deliveries/:deliveryId/redeliver',
+    {
+      preHandler: [fastify.authenticate as any],
+    },
+    async (
+      request: FastifyRequest<{ Params: { endpointId: string; deliveryId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { endpointId, deliveryId } = request.params;
+      const { userId } = request.user!;
+
+      const delivery = await prisma.webhookDelivery.findFirst({
+        where: {
+          id: deliveryId,
+          endpoint: { id: endpointId, userId },
+        },
+      });
+
+      if (!delivery) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Delivery not found',
+        });
+      }
+
+      // Logged as a new delivery with the original payload
+      const redelivery = await prisma.webhookDelivery.create({
+        data: {
+          endpointId,
+          eventType: delivery.eventType,
+          payload: delivery.payload as any,
+        },
+      });
+
+      await queueWebhookDelivery(redelivery.id);
+
+      return reply.status(202).send({
+        success: true,
+        data: { deliveryId: redelivery.id },
+      });
+    }
+  );
+}
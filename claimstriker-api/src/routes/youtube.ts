@@ -2,13 +2,11 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
 import { env } from '../config/env.js';
-import { encrypt, decrypt } from '../lib/encryption.js';
-import {
-  getAuthUrl,
-  exchangeCodeForTokens,
-  refreshAccessToken,
-} from '../lib/youtube/oauth.js';
+import { encrypt } from '../lib/encryption.js';
+import { getAuthUrl, exchangeCodeForTokens, generatePkcePair } from '../lib/youtube/oauth.js';
+import { createOAuthState, consumeOAuthState } from '../lib/youtube/oauthState.js';
 import { getChannelInfo } from '../lib/youtube/api.js';
+import { getValidAccessToken } from '../lib/youtube/tokenManager.js';
 
 const callbackSchema = z.object({
   code: z.string(),
@@ -25,9 +23,10 @@ export async function youtubeRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { userId } = request.user!;
 
-      // Use userId as state to verify callback
-      const state = Buffer.from(JSON.stringify({ userId })).toString('base64');
-      const url = getAuthUrl(state);
+      // The callback is unauthenticated, so it only trusts a signed, single-use state
+      const { codeVerifier, codeChallenge } = await generatePkcePair();
+      const state = await createOAuthState(userId, codeVerifier);
+      const url = getAuthUrl(state, codeChallenge);
 
       return reply.send({
         success: true,
@@ -47,16 +46,14 @@ export async function youtubeRoutes(fastify: FastifyInstance) {
 
     const { code, state } = result.data;
 
-    // Decode state to get userId
-    let userId: string;
-    try {
-      const decoded = JSON.parse(Buffer.from(state || '', 'base64').toString());
-      userId = decoded.userId;
-      if (!userId) throw new Error('No userId in state');
-    } catch {
-      return reply.redirect(`${frontendUrl}/channels?error=invalid_state`);
+    // Verify and consume the state to get the user who started the link
+    const verified = await consumeOAuthState(state);
+    if ('error' in verified) {
+      return reply.redirect(`${frontendUrl}/channels?error=${verified.error}`);
     }
 
+    const { userId, codeVerifier } = verified;
+
     // Verify user exists
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -68,7 +65,7 @@ export async function youtubeRoutes(fastify: FastifyInstance) {
 
     try {
       // Exchange code for tokens
-      const tokens = await exchangeCodeForTokens(code);
+      const tokens = await exchangeCodeForTokens(code, codeVerifier);
 
       // Get channel info from YouTube
       const channelInfo = await getChannelInfo(tokens.accessToken);
@@ -150,17 +147,11 @@ export async function youtubeRoutes(fastify: FastifyInstance) {
       }
 
       try {
-        const currentRefreshToken = decrypt(channel.refreshToken);
-        const tokens = await refreshAccessToken(currentRefreshToken);
+        await getValidAccessToken(channelId, { minValidityMs: Infinity });
 
         await prisma.channel.update({
           where: { id: channelId },
-          data: {
-            accessToken: encrypt(tokens.accessToken),
-            refreshToken: encrypt(tokens.refreshToken),
-            tokenExpiresAt: tokens.expiresAt,
-            status: 'ACTIVE',
-          },
+          data: { status: 'ACTIVE' },
         });
 
         return reply.send({
@@ -170,9 +161,9 @@ export async function youtubeRoutes(fastify: FastifyInstance) {
       } catch (error) {
         fastify.log.error(error);
 
-        // Mark channel as having an error
-        await prisma.channel.update({
-          where: { id: channelId },
+        // A revoked channel was already marked by the token manager
+        await prisma.channel.updateMany({
+          where: { id: channelId, status: { not: 'REVOKED' } },
           data: {
             status: 'ERROR',
             lastSyncError: 'Failed to refresh token - reauthorization required',
@@ -1,10 +1,12 @@
 import type { FastifyRequest } from 'fastify';
+import type { StrikeStanding } from '../lib/strikes.js';
 
 // JWT Payload
 export interface JWTPayload {
   userId: string;
   email: string;
   role: 'USER' | 'ADMIN' | 'SUPER_ADMIN';
+  sessionId: string;
   iat?: number;
   exp?: number;
 }
@@ -79,6 +81,7 @@ export interface YouTubeVideoInfo {
   likeCount?: number;
   privacyStatus?: string;
   uploadStatus?: string;
+  rejectionReason?: string; // Set when uploadStatus is rejected, e.g. copyright
   license?: string;
   monetizationStatus?: string;
   madeForKids?: boolean;
@@ -94,6 +97,10 @@ export interface DashboardSummary {
   claimsLast30Days: number;
   channelCount: number;
   videoCount: number;
+  strikesByChannel: Array<{
+    channelId: string;
+    title: string;
+  } & StrikeStanding>;
 }
 
 // Event Filters
@@ -1,9 +1,7 @@
 import { Job } from 'bullmq';
 import { prisma } from '../config/database.js';
-import { decrypt } from '../lib/encryption.js';
 import { listVideos, getChannelInfo } from '../lib/youtube/api.js';
-import { refreshAccessToken } from '../lib/youtube/oauth.js';
-import { encrypt } from '../lib/encryption.js';
+import { getValidAccessToken } from '../lib/youtube/tokenManager.js';
 import { claimDetectQueue, claimSyncQueue, notificationQueue } from './queue.js';
 import type { ChannelSyncJob, ClaimSyncJob, ClaimDetectJob, NotificationJob } from './queue.js';
 
@@ -27,29 +25,8 @@ export async function processChannelSync(job: Job<ChannelSyncJob>) {
     return;
   }
 
-  let accessToken: string;
-
   try {
-    // Check if token needs refresh
-    const now = new Date();
-    if (channel.tokenExpiresAt <= now) {
-      console.log(`[ChannelSync] Refreshing token for channel ${channelId}`);
-      const refreshToken = decrypt(channel.refreshToken);
-      const tokens = await refreshAccessToken(refreshToken);
-
-      await prisma.channel.update({
-        where: { id: channelId },
-        data: {
-          accessToken: encrypt(tokens.accessToken),
-          refreshToken: encrypt(tokens.refreshToken),
-          tokenExpiresAt: tokens.expiresAt,
-        },
-      });
-
-      accessToken = tokens.accessToken;
-    } else {
-      accessToken = decrypt(channel.accessToken);
-    }
+    const accessToken = await getValidAccessToken(channelId);
 
     // Update channel info
     const channelInfo = await getChannelInfo(accessToken);
@@ -177,6 +154,15 @@ export async function processChannelSync(job: Job<ChannelSyncJob>) {
   } catch (error: any) {
     console.error(`[ChannelSync] Error syncing channel ${channelId}:`, error.message);
 
+    // The token manager already marked a revoked channel and told its owner
+    const current = await prisma.channel.findUnique({
+      where: { id: channelId },
+      select: { status: true },
+    });
+    if (current?.status === 'REVOKED') {
+      throw error;
+    }
+
     // Update channel with error
     await prisma.channel.update({
       where: { id: channelId },
@@ -1,9 +1,16 @@
 import { Job } from 'bullmq';
 import { prisma } from '../config/database.js';
-import { decrypt } from '../lib/encryption.js';
-import { getVideoDetails, detectPotentialIssues } from '../lib/youtube/api.js';
-import { notificationQueue } from './queue.js';
-import type { ClaimDetectJob, NotificationJob } from './queue.js';
+import { findOrCreateClaimant, incrementClaimantClaims } from '../lib/claimants.js';
+import {
+  getVideoDetails,
+  detectPotentialIssues,
+  isCopyrightTakedown,
+} from '../lib/youtube/api.js';
+import { notificationQueue, explanationQueue } from './queue.js';
+import type { ClaimDetectJob, NotificationJob, ExplanationJob } from './queue.js';
+import { queueEventWebhooks } from './webhook.js';
+import { recordStrike } from './strike.js';
+import { getValidAccessToken } from '../lib/youtube/tokenManager.js';
 import type { YouTubeVideoInfo } from '../types/index.js';
 
 export async function processClaimDetect(job: Job<ClaimDetectJob>) {
@@ -25,7 +32,7 @@ export async function processClaimDetect(job: Job<ClaimDetectJob>) {
   }
 
   try {
-    const accessToken = decrypt(video.channel.accessToken);
+    const accessToken = await getValidAccessToken(video.channelId);
 
     // Get fresh video details from YouTube
     const currentVideo = await getVideoDetails(accessToken, video.youtubeVideoId);
@@ -104,6 +111,26 @@ export async function processClaimDetect(job: Job<ClaimDetectJob>) {
       }
     }
 
+    if (isCopyrightTakedown(currentVideo)) {
+      const existingStrike = await prisma.copyrightStrike.findFirst({
+        where: { videoId: video.id, source: 'DETECTED' },
+        select: { id: true },
+      });
+
+      if (!existingStrike) {
+        console.log(`[ClaimDetect] Video ${videoId} was removed for copyright`);
+
+        // The Data API doesn't expose when the strike was issued, so use when we saw it
+        await recordStrike({
+          channelId: video.channelId,
+          videoId: video.id,
+          issuedAt: new Date(),
+          source: 'DETECTED',
+          reason: 'Video rejected for copyright',
+        });
+      }
+    }
+
     // Update video with current state for next comparison
     await prisma.video.update({
       where: { id: video.id },
@@ -140,35 +167,14 @@ async function createCopyrightEvent(
 
   // If we have a claimant name, find or create the claimant
   if (claimantName) {
-    const normalizedName = normalizeClaimantName(claimantName);
-
-    const claimant = await prisma.claimant.upsert({
-      where: { nameNormalized: normalizedName },
-      create: {
-        name: claimantName,
-        nameNormalized: normalizedName,
-        type: 'UNKNOWN',
-      },
-      update: {},
-    });
-
+    const claimant = await findOrCreateClaimant(claimantName);
     claimantId = claimant.id;
 
-    // Update claimant statistics
-    await prisma.claimantStatistics.upsert({
-      where: { claimantId: claimant.id },
-      create: {
-        claimantId: claimant.id,
-        totalClaims: 1,
-      },
-      update: {
-        totalClaims: { increment: 1 },
-      },
-    });
+    await incrementClaimantClaims(claimant.id);
   }
 
-  // Create the copyright event
-  await prisma.copyrightEvent.create({
+  // Create the copyright event; the raw change string is shown until the explanation job runs
+  const event = await prisma.copyrightEvent.create({
     data: {
       videoId,
       type,
@@ -181,14 +187,12 @@ async function createCopyrightEvent(
       },
     },
   });
-}
 
-function normalizeClaimantName(name: string): string {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/\s+(inc\.?|llc\.?|ltd\.?|corp\.?|corporation|limited)$/i, '')
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
+  await explanationQueue.add(
+    'explain-event',
+    { eventId: event.id } as ExplanationJob,
+    { jobId: `explain-${event.id}-${Date.now()}` }
+  );
+
+  await queueEventWebhooks(event.id, 'created');
 }
@@ -1,22 +1,65 @@
 import { Job } from 'bullmq';
+import { Prisma, type ClaimantType } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import { decrypt } from '../lib/encryption.js';
+import { findOrCreateClaimant, incrementClaimantClaims } from '../lib/claimants.js';
 import {
   getContentOwner,
+  getContentOwnerById,
   searchClaims,
   getAsset,
+  getClaimHistory,
+  parseClaimHistory,
+  parseIsoDuration,
   parseMatchInfo,
-  parsePolicyAction,
   ContentIdClaim,
+  ContentOwner,
+  ParsedMatchSegment,
 } from '../lib/youtube/contentId.js';
-import { notificationQueue } from './queue.js';
-import type { NotificationJob } from './queue.js';
+import {
+  derivePolicyImpact,
+  evaluateRegionActions,
+  getPrimaryAction,
+  parsePolicyRules,
+} from '../lib/youtube/policy.js';
+import { getAtRiskRpm } from '../lib/revenue.js';
+import { notificationQueue, explanationQueue, eventSweepQueue } from './queue.js';
+import { queueEventWebhooks } from './webhook.js';
+import { getValidAccessToken } from '../lib/youtube/tokenManager.js';
+import type { NotificationJob, ExplanationJob, EventSweepJob } from './queue.js';
 
 export interface ClaimSyncJob {
   channelId: string;
   fullSync?: boolean; // If true, fetch all claims; otherwise just recent
 }
 
+interface ResolvedAsset {
+  claimantName: string | null;
+  claimantType: ClaimantType;
+  claimedContent: string | null;
+  summary: {
+    id: string;
+    type: string;
+    title?: string;
+    artist?: string;
+    album?: string;
+    isrc?: string;
+    customId?: string;
+    ownerId?: string;
+  };
+}
+
+type AssetResolver = (assetId: string) => Promise<ResolvedAsset | null>;
+
+// Claimant type implied by the kind of asset being claimed
+const ASSET_CLAIMANT_TYPES: Record<string, ClaimantType> = {
+  sound_recording: 'LABEL',
+  music_video: 'LABEL',
+  art_track_video: 'LABEL',
+  composition: 'PUBLISHER',
+  movie: 'STUDIO',
+  episode: 'STUDIO',
+};
+
 /**
  * Sync claims from YouTube Content ID API for a channel.
  * This fetches real claim data using the Partner API.
@@ -35,6 +78,7 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
           id: true,
           youtubeVideoId: true,
           title: true,
+          duration: true,
         },
       },
     },
@@ -50,8 +94,10 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
     return;
   }
 
+  const syncStartedAt = new Date();
+
   try {
-    const accessToken = decrypt(channel.accessToken);
+    const accessToken = await getValidAccessToken(channelId);
 
     // Get or fetch content owner ID
     let contentOwnerId = channel.contentOwnerId;
@@ -83,9 +129,13 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
     }
 
     // Build map of our video IDs
-    const videoIdMap = new Map<string, { id: string; title: string }>();
+    const videoIdMap = new Map<string, { id: string; title: string; duration: string | null }>();
     for (const video of channel.videos) {
-      videoIdMap.set(video.youtubeVideoId, { id: video.id, title: video.title });
+      videoIdMap.set(video.youtubeVideoId, {
+        id: video.id,
+        title: video.title,
+        duration: video.duration,
+      });
     }
 
     // Determine date range for claim search
@@ -93,6 +143,9 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
       ? undefined
       : channel.lastClaimSyncAt || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Last 30 days
 
+    // Many claims share an asset (e.g. the same song), so lookups are cached for this run
+    const resolveAsset = createAssetResolver(accessToken, contentOwnerId);
+
     // Fetch claims from Content ID API
     console.log(`[ClaimSync] Searching for claims...`);
     let pageToken: string | undefined;
@@ -108,6 +161,8 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
         includeThirdPartyClaims: true,
       });
 
+      const seenClaimIds: string[] = [];
+
       for (const claim of result.items) {
         totalClaims++;
 
@@ -117,11 +172,15 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
           continue; // Skip claims for videos we don't have
         }
 
+        seenClaimIds.push(claim.id);
+
         // Process the claim
         const processed = await processContentIdClaim(
           claim,
           videoInfo.id,
-          channel.userId
+          videoInfo.duration,
+          channel.userId,
+          resolveAsset
         );
 
         if (processed === 'new') {
@@ -129,8 +188,19 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
         } else if (processed === 'updated') {
           updatedClaims++;
         }
+
+        // History only changes when the claim does; a full sync refreshes everything
+        if (processed !== 'unchanged' || fullSync) {
+          await syncClaimHistory(accessToken, contentOwnerId, claim.id);
+        }
       }
 
+      // Claims missing from a full sync are withdrawn by the event sweep
+      await prisma.copyrightEvent.updateMany({
+        where: { youtubeClaimId: { in: seenClaimIds } },
+        data: { lastSeenAt: new Date() },
+      });
+
       pageToken = result.nextPageToken;
 
       // Rate limiting
@@ -153,6 +223,14 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
         `${totalClaims} claims processed, ${newClaims} new, ${updatedClaims} updated`
     );
 
+    if (fullSync) {
+      await eventSweepQueue.add(
+        'sweep-events',
+        { channelId, claimSyncStartedAt: syncStartedAt.toISOString() } as EventSweepJob,
+        { jobId: `event-sweep-${channelId}-${Date.now()}` }
+      );
+    }
+
     // Notify user if new claims were found
     if (newClaims > 0) {
       await notificationQueue.add('notify', {
@@ -195,18 +273,51 @@ export async function processClaimSync(job: Job<ClaimSyncJob>) {
 async function processContentIdClaim(
   claim: ContentIdClaim,
   videoId: string,
-  userId: string
+  videoDuration: string | null,
+  userId: string,
+  resolveAsset: AssetResolver
 ): Promise<'new' | 'updated' | 'unchanged'> {
   // Check if we already have this claim
   const existingEvent = await prisma.copyrightEvent.findUnique({
     where: { youtubeClaimId: claim.id },
+    include: {
+      matchSegments: {
+        select: {
+          position: true,
+          videoStartMs: true,
+          videoEndMs: true,
+          referenceStartMs: true,
+          referenceEndMs: true,
+          channel: true,
+        },
+        orderBy: { position: 'asc' },
+      },
+    },
   });
 
-  // Parse match info
-  const matchDetails = parseMatchInfo(claim.matchInfo);
+  // Only look up the asset when the claimant is still unknown
+  const asset =
+    claim.assetId && !existingEvent?.claimantId ? await resolveAsset(claim.assetId) : null;
+
+  const claimant = asset?.claimantName
+    ? await findOrCreateClaimant(asset.claimantName, asset.claimantType)
+    : null;
 
-  // Parse policy action
-  const policyAction = parsePolicyAction(claim.policy, claim.appliedPolicy);
+  // Parse match info
+  const matchDetails = parseMatchInfo(
+    claim.matchInfo,
+    videoDuration ? parseIsoDuration(videoDuration) : undefined
+  );
+
+  // Where the claim monetizes, tracks or blocks the video, and what that costs
+  const policyRules = parsePolicyRules(claim.policy, claim.appliedPolicy);
+  const regionActions = evaluateRegionActions(policyRules, {
+    matchDurationSecs: matchDetails?.totalMatchMs != null ? matchDetails.totalMatchMs / 1000 : null,
+    matchPercent: matchDetails?.matchPercent ?? null,
+  });
+  const policyAction = getPrimaryAction(regionActions);
+  const impact = derivePolicyImpact(regionActions);
+  const atRiskRpm = regionActions ? getAtRiskRpm(regionActions) : null;
 
   // Map Content ID status to our EventStatus
   const mapStatus = (status: string): 'ACTIVE' | 'EXPIRED' | 'WITHDRAWN' | 'DISPUTED' | 'RESOLVED' => {
@@ -229,50 +340,272 @@ async function processContentIdClaim(
   // Map content type
   const contentType = claim.contentType?.toLowerCase() || 'unknown';
 
-  // Determine event type
-  const eventType = policyAction === 'block' ? 'STRIKE' : 'CLAIM';
+  const status = mapStatus(claim.status);
+  const statusChangedAt = claim.timeStatusLastModified
+    ? new Date(claim.timeStatusLastModified)
+    : new Date();
 
-  // Prepare the claim data
+  // Prepare the claim data. A blocking policy is still a claim; strikes are takedowns
+  // and are tracked separately (see workers/strike.ts)
   const claimData = {
     videoId,
     youtubeClaimId: claim.id,
     assetId: claim.assetId,
-    type: eventType as 'CLAIM' | 'STRIKE' | 'MONETIZATION_CHANGE' | 'REGION_RESTRICTION',
-    status: mapStatus(claim.status),
+    type: 'CLAIM' as const,
+    status,
+    resolvedAt: status === 'RESOLVED' ? statusChangedAt : null,
+    claimantId: claimant?.id,
+    claimedContent: asset?.claimedContent,
     contentType,
     claimType: policyAction,
     policyAction,
-    matchStartMs: matchDetails?.matchStartMs,
-    matchEndMs: matchDetails?.matchEndMs,
+    ...impact,
+    regionActions: regionActions ? (regionActions as any) : Prisma.DbNull,
+    atRiskRpm,
+    matchStartMs: matchDetails?.matchStartMs ?? null,
+    matchEndMs: matchDetails?.matchEndMs ?? null,
+    totalMatchMs: matchDetails?.totalMatchMs ?? null,
+    longestMatchMs: matchDetails?.longestMatchMs ?? null,
+    matchPercent: matchDetails?.matchPercent ?? null,
     detectedAt: claim.timeCreated ? new Date(claim.timeCreated) : new Date(),
-    rawData: claim as any,
+    rawData: {
+      ...claim,
+      asset: asset?.summary ?? (existingEvent?.rawData as any)?.asset,
+    } as any,
   };
 
   if (existingEvent) {
     // Check if anything changed
     const hasChanges =
       existingEvent.status !== claimData.status ||
-      existingEvent.policyAction !== claimData.policyAction;
+      existingEvent.policyAction !== claimData.policyAction ||
+      existingEvent.type !== claimData.type ||
+      !!claimant;
+
+    // RPM table changes and events synced before impacts or match totals were derived
+    const matchChanged =
+      existingEvent.matchStartMs !== claimData.matchStartMs ||
+      existingEvent.matchEndMs !== claimData.matchEndMs ||
+      existingEvent.totalMatchMs !== claimData.totalMatchMs ||
+      existingEvent.longestMatchMs !== claimData.longestMatchMs ||
+      existingEvent.matchPercent !== claimData.matchPercent;
+
+    const derivedChanged =
+      matchChanged ||
+      existingEvent.monetizationImpact !== claimData.monetizationImpact ||
+      existingEvent.viewabilityImpact !== claimData.viewabilityImpact ||
+      existingEvent.atRiskRpm !== claimData.atRiskRpm ||
+      JSON.stringify(existingEvent.regionActions) !== JSON.stringify(regionActions) ||
+      existingEvent.affectedRegions.join(',') !== claimData.affectedRegions.join(',');
+
+    const derivedData = {
+      monetizationImpact: claimData.monetizationImpact,
+      viewabilityImpact: claimData.viewabilityImpact,
+      affectedRegions: claimData.affectedRegions,
+      regionActions: claimData.regionActions,
+      atRiskRpm: claimData.atRiskRpm,
+      matchStartMs: claimData.matchStartMs,
+      matchEndMs: claimData.matchEndMs,
+      totalMatchMs: claimData.totalMatchMs,
+      longestMatchMs: claimData.longestMatchMs,
+      matchPercent: claimData.matchPercent,
+    };
+
+    // Segments can move (e.g. to other reference offsets) without changing the totals
+    const segments = matchDetails?.segments || [];
+    if (serializeSegments(existingEvent.matchSegments) !== serializeSegments(segments)) {
+      await replaceMatchSegments(existingEvent.id, segments);
+    }
 
     if (hasChanges) {
       await prisma.copyrightEvent.update({
         where: { id: existingEvent.id },
         data: {
+          // Blocking claims used to be stored as strikes
+          type: claimData.type,
           status: claimData.status,
+          resolvedAt:
+            claimData.status === 'RESOLVED' ? existingEvent.resolvedAt ?? statusChangedAt : null,
           policyAction: claimData.policyAction,
+          ...derivedData,
           rawData: claimData.rawData,
+          // Backfill the claimant on claims synced before it could be resolved
+          ...(claimant && {
+            claimantId: claimant.id,
+            claimedContent: asset?.claimedContent ?? existingEvent.claimedContent,
+          }),
         },
       });
+
+      if (claimant) {
+        await incrementClaimantClaims(claimant.id);
+      }
+
+      await queueExplanation(existingEvent.id);
+      await queueEventWebhooks(existingEvent.id, 'updated');
       return 'updated';
     }
 
+    // Refreshed quietly, without a new explanation or webhook
+    if (derivedChanged) {
+      await prisma.copyrightEvent.update({
+        where: { id: existingEvent.id },
+        data: derivedData,
+      });
+    }
+
     return 'unchanged';
   }
 
   // Create new copyright event
-  await prisma.copyrightEvent.create({
-    data: claimData,
+  const event = await prisma.copyrightEvent.create({
+    data: {
+      ...claimData,
+      matchSegments: {
+        create: matchDetails?.segments || [],
+      },
+    },
   });
 
+  if (claimant) {
+    await incrementClaimantClaims(claimant.id);
+  }
+
+  await queueExplanation(event.id);
+  await queueEventWebhooks(event.id, 'created');
+
   return 'new';
 }
+
+/**
+ * Store the claim's history as timeline entries on its CopyrightEvent.
+ * Entries are keyed by type and time so re-syncing only adds new ones.
+ */
+async function syncClaimHistory(
+  accessToken: string,
+  contentOwnerId: string,
+  youtubeClaimId: string
+): Promise<void> {
+  const event = await prisma.copyrightEvent.findUnique({
+    where: { youtubeClaimId },
+    select: { id: true },
+  });
+
+  if (!event) {
+    return;
+  }
+
+  try {
+    const history = await getClaimHistory(accessToken, contentOwnerId, youtubeClaimId);
+    const entries = parseClaimHistory(history);
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    await prisma.claimHistoryEntry.createMany({
+      data: entries.map(({ raw, ...entry }) => ({
+        copyrightEventId: event.id,
+        ...entry,
+        rawData: raw as any,
+      })),
+      skipDuplicates: true,
+    });
+  } catch (error: any) {
+    // Missing history shouldn't fail the claim sync
+    console.error(`[ClaimSync] Error syncing history for claim ${youtubeClaimId}:`, error.message);
+  }
+}
+
+function serializeSegments(segments: ParsedMatchSegment[]): string {
+  return JSON.stringify(
+    segments.map((segment) => [
+      segment.position,
+      segment.videoStartMs,
+      segment.videoEndMs,
+      segment.referenceStartMs,
+      segment.referenceEndMs,
+      segment.channel,
+    ])
+  );
+}
+
+async function replaceMatchSegments(
+  eventId: string,
+  segments: ParsedMatchSegment[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.matchSegment.deleteMany({ where: { copyrightEventId: eventId } }),
+    prisma.matchSegment.createMany({
+      data: segments.map((segment) => ({ copyrightEventId: eventId, ...segment })),
+    }),
+  ]);
+}
+
+async function queueExplanation(eventId: string): Promise<void> {
+  await explanationQueue.add(
+    'explain-event',
+    { eventId } as ExplanationJob,
+    { jobId: `explain-${eventId}-${Date.now()}` }
+  );
+}
+
+/**
+ * Create a per-sync asset lookup that resolves the claimed work and its owner once per asset.
+ * Lookup failures are cached as null so one broken asset doesn't stall the sync.
+ */
+function createAssetResolver(accessToken: string, contentOwnerId: string): AssetResolver {
+  const assets = new Map<string, Promise<ResolvedAsset | null>>();
+  const owners = new Map<string, Promise<ContentOwner | null>>();
+
+  const lookupOwner = (ownerId: string) => {
+    if (!owners.has(ownerId)) {
+      owners.set(
+        ownerId,
+        getContentOwnerById(accessToken, contentOwnerId, ownerId).catch(() => null)
+      );
+    }
+    return owners.get(ownerId)!;
+  };
+
+  const resolve = async (assetId: string): Promise<ResolvedAsset | null> => {
+    const info = await getAsset(accessToken, contentOwnerId, assetId).catch(() => null);
+    if (!info) {
+      return null;
+    }
+
+    // Prefer a third-party owner; our own content owner only claims its own uploads
+    const ownerIds = info.ownerIds || [];
+    const ownerId = ownerIds.find((id) => id !== contentOwnerId) || ownerIds[0];
+    const owner = ownerId ? await lookupOwner(ownerId) : null;
+
+    const title = info.metadata?.title || info.title;
+    const artist = info.metadata?.artist;
+    const album = info.metadata?.album;
+
+    return {
+      claimantName: owner?.displayName && owner.displayName !== 'Unknown' ? owner.displayName : null,
+      claimantType: ASSET_CLAIMANT_TYPES[info.type.toLowerCase()] || 'UNKNOWN',
+      claimedContent: title
+        ? `${title}${artist ? ` - ${artist}` : ''}${album ? ` (${album})` : ''}`
+        : null,
+      summary: {
+        id: info.id,
+        type: info.type,
+        title,
+        artist,
+        album,
+        isrc: info.metadata?.isrc,
+        customId: info.customId,
+        ownerId,
+      },
+    };
+  };
+
+  return (assetId: string) => {
+    if (!assets.has(assetId)) {
+      assets.set(assetId, resolve(assetId));
+    }
+    return assets.get(assetId)!;
+  };
+}
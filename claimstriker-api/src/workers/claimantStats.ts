@@ -0,0 +1,149 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { assessClaimantRisk, type ClaimantRiskInput } from '../lib/claimantRisk.js';
+import type { ClaimantStatsJob } from './queue.js';
+
+const BATCH_SIZE = 500;
+
+function emptyCounts(): ClaimantRiskInput {
+  return { totalClaims: 0, totalDisputes: 0, totalOverturned: 0, totalUpheld: 0 };
+}
+
+/**
+ * Recalculate claimant statistics and risk levels from dispute outcomes
+ * and approved community reports.
+ */
+export async function processClaimantStats(job: Job<ClaimantStatsJob>) {
+  const { claimantId } = job.data;
+
+  console.log(
+    `[ClaimantStats] Recalculating ${claimantId ? `claimant ${claimantId}` : 'all claimants'}`
+  );
+
+  let cursor: string | undefined;
+  let processed = 0;
+
+  try {
+    do {
+      const claimants = await prisma.claimant.findMany({
+        where: claimantId ? { id: claimantId } : undefined,
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (claimants.length === 0) {
+        break;
+      }
+
+      const ids = claimants.map((c) => c.id);
+      const counts = await collectCounts(ids);
+      const now = new Date();
+
+      for (const id of ids) {
+        const input = counts.get(id) || emptyCounts();
+        const assessment = assessClaimantRisk(input);
+
+        await prisma.claimantStatistics.upsert({
+          where: { claimantId: id },
+          create: {
+            claimantId: id,
+            ...input,
+            ...assessment,
+            lastCalculatedAt: now,
+          },
+          update: {
+            ...input,
+            ...assessment,
+            lastCalculatedAt: now,
+          },
+        });
+      }
+
+      processed += ids.length;
+      cursor = ids[ids.length - 1];
+    } while (!claimantId);
+
+    console.log(`[ClaimantStats] Recalculated statistics for ${processed} claimants`);
+  } catch (error: any) {
+    console.error('[ClaimantStats] Error recalculating statistics:', error.message);
+    throw error;
+  }
+}
+
+async function collectCounts(claimantIds: string[]): Promise<Map<string, ClaimantRiskInput>> {
+  const counts = new Map<string, ClaimantRiskInput>();
+  const get = (id: string) => {
+    let entry = counts.get(id);
+    if (!entry) {
+      entry = emptyCounts();
+      counts.set(id, entry);
+    }
+    return entry;
+  };
+
+  const [claimCounts, disputes, reports] = await Promise.all([
+    prisma.copyrightEvent.groupBy({
+      by: ['claimantId'],
+      where: { claimantId: { in: claimantIds } },
+      _count: true,
+    }),
+    // Drafts never reached the claimant, so only submitted disputes count
+    prisma.dispute.findMany({
+      where: {
+        status: { in: ['SUBMITTED', 'WON', 'LOST', 'UNKNOWN'] },
+        copyrightEvent: { claimantId: { in: claimantIds } },
+      },
+      select: {
+        status: true,
+        copyrightEvent: { select: { claimantId: true } },
+      },
+    }),
+    prisma.claimantReport.groupBy({
+      by: ['claimantId', 'outcome'],
+      where: {
+        claimantId: { in: claimantIds },
+        isApproved: true,
+        // Reports prefilled from a dispute are already counted above
+        disputeId: null,
+      },
+      _count: true,
+    }),
+  ]);
+
+  for (const row of claimCounts) {
+    if (row.claimantId) {
+      get(row.claimantId).totalClaims = row._count;
+    }
+  }
+
+  for (const dispute of disputes) {
+    const id = dispute.copyrightEvent.claimantId;
+    if (!id) continue;
+
+    const entry = get(id);
+    entry.totalDisputes++;
+    if (dispute.status === 'WON') {
+      entry.totalOverturned++;
+    } else if (dispute.status === 'LOST') {
+      entry.totalUpheld++;
+    }
+  }
+
+  for (const row of reports) {
+    const entry = get(row.claimantId);
+    // Each report is a claim we don't track as an event, so it counts on both sides
+    // and the dispute rate stays within 0-1
+    entry.totalClaims += row._count;
+    entry.totalDisputes += row._count;
+    // A withdrawn claim is a win for the creator
+    if (row.outcome === 'OVERTURNED' || row.outcome === 'WITHDRAWN') {
+      entry.totalOverturned += row._count;
+    } else if (row.outcome === 'UPHELD') {
+      entry.totalUpheld += row._count;
+    }
+  }
+
+  return counts;
+}
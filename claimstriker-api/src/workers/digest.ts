@@ -0,0 +1,77 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { getAllDeliveryModes } from '../lib/notificationPreferences.js';
+import { buildWeeklySummary, formatSummaryMessage, isEmptySummary } from '../lib/digest.js';
+import { digestQueue, notificationQueue } from './queue.js';
+import type { DigestJob, NotificationJob } from './queue.js';
+
+const DIGEST_PERIOD_DAYS = 7;
+
+/**
+ * Build the weekly summary for one user, or fan out one job per user with channels.
+ */
+export async function processDigest(job: Job<DigestJob>) {
+  const periodEnd = job.data.periodEnd ? new Date(job.data.periodEnd) : new Date();
+
+  if (!job.data.userId) {
+    await fanOutDigests(periodEnd);
+    return;
+  }
+
+  const { userId } = job.data;
+  const periodStart = new Date(periodEnd.getTime() - DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  console.log(`[Digest] Building weekly summary for user ${userId}`);
+
+  try {
+    const delivery = await getAllDeliveryModes(userId);
+
+    if (delivery.WEEKLY_SUMMARY === 'OFF') {
+      console.log(`[Digest] User ${userId} has weekly summaries turned off`);
+      return;
+    }
+
+    const summary = await buildWeeklySummary(userId, periodStart, periodEnd, delivery);
+
+    // Nothing happened this week; don't send an empty digest
+    if (isEmptySummary(summary)) {
+      console.log(`[Digest] No activity for user ${userId}, skipping`);
+      return;
+    }
+
+    await notificationQueue.add(
+      'notify',
+      {
+        userId,
+        type: 'WEEKLY_SUMMARY',
+        title: 'Your weekly copyright summary',
+        message: formatSummaryMessage(summary),
+        sendEmail: true,
+        data: summary as unknown as Record<string, unknown>,
+      } as NotificationJob,
+      { jobId: `weekly-summary-${userId}-${periodEnd.toISOString().split('T')[0]}` }
+    );
+
+    console.log(`[Digest] Queued weekly summary for user ${userId}`);
+  } catch (error: any) {
+    console.error(`[Digest] Error building summary for user ${userId}:`, error.message);
+    throw error;
+  }
+}
+
+async function fanOutDigests(periodEnd: Date) {
+  const users = await prisma.user.findMany({
+    where: { channels: { some: {} } },
+    select: { id: true },
+  });
+
+  console.log(`[Digest] Queueing weekly summaries for ${users.length} users`);
+
+  await digestQueue.addBulk(
+    users.map((user) => ({
+      name: 'user-digest',
+      data: { userId: user.id, periodEnd: periodEnd.toISOString() } as DigestJob,
+      opts: { jobId: `digest-${user.id}-${periodEnd.toISOString().split('T')[0]}` },
+    }))
+  );
+}
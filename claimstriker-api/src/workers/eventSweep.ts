@@ -0,0 +1,155 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { isIssueResolved } from '../lib/youtube/api.js';
+import { queueEventWebhooks } from './webhook.js';
+import type { EventSweepJob } from './queue.js';
+import type { YouTubeVideoInfo } from '../types/index.js';
+
+const UNAVAILABLE_DESCRIPTION = 'Video is no longer accessible';
+
+/**
+ * Close out events that no longer apply:
+ * - detect-based events whose condition is gone from the video's current state
+ * - claims missing from a completed full Content ID sync (withdrawn)
+ * - strikes past their 90 days with Copyright School completed (expired)
+ */
+export async function processEventSweep(job: Job<EventSweepJob>) {
+  const { channelId, claimSyncStartedAt } = job.data;
+
+  console.log(`[EventSweep] Sweeping ${channelId ? `channel ${channelId}` : 'all channels'}`);
+
+  try {
+    const resolved = await resolveClearedEvents(channelId);
+
+    const withdrawn =
+      channelId && claimSyncStartedAt
+        ? await withdrawUnseenClaims(channelId, new Date(claimSyncStartedAt))
+        : 0;
+
+    const expired = await expireStrikes(channelId);
+
+    console.log(
+      `[EventSweep] Completed: ${resolved} resolved, ${withdrawn} withdrawn, ${expired} strikes expired`
+    );
+  } catch (error: any) {
+    console.error(`[EventSweep] Error sweeping events:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Resolve events created by claim detection once the video no longer shows the issue.
+ * Relies on channel sync keeping the stored video state current.
+ */
+async function resolveClearedEvents(channelId?: string): Promise<number> {
+  const events = await prisma.copyrightEvent.findMany({
+    where: {
+      youtubeClaimId: null,
+      type: { in: ['REGION_RESTRICTION', 'MONETIZATION_CHANGE'] },
+      status: 'ACTIVE',
+      video: {
+        channel: {
+          status: 'ACTIVE',
+          ...(channelId && { id: channelId }),
+        },
+      },
+    },
+    select: {
+      id: true,
+      detectedAt: true,
+      rawData: true,
+      video: {
+        select: {
+          privacyStatus: true,
+          uploadStatus: true,
+          blockedRegions: true,
+          updatedAt: true,
+        },
+      },
+    },
+  });
+
+  let resolved = 0;
+
+  for (const event of events) {
+    const change = (event.rawData as any)?.changeDescription;
+    if (typeof change !== 'string') {
+      continue;
+    }
+
+    // A missing video leaves its stored state untouched, so any later update means it's back
+    const cleared = change.startsWith(UNAVAILABLE_DESCRIPTION)
+      ? event.video.updatedAt > event.detectedAt && event.video.privacyStatus === 'public'
+      : isIssueResolved(change, event.video as Partial<YouTubeVideoInfo>);
+
+    if (!cleared) {
+      continue;
+    }
+
+    await prisma.copyrightEvent.update({
+      where: { id: event.id },
+      data: { status: 'RESOLVED', resolvedAt: new Date() },
+    });
+    await queueEventWebhooks(event.id, 'updated');
+    resolved++;
+  }
+
+  return resolved;
+}
+
+/**
+ * A full sync returns every claim on the channel's videos, so claims it
+ * didn't return have been released or removed.
+ */
+async function withdrawUnseenClaims(channelId: string, syncStartedAt: Date): Promise<number> {
+  const events = await prisma.copyrightEvent.findMany({
+    where: {
+      youtubeClaimId: { not: null },
+      status: { in: ['ACTIVE', 'DISPUTED'] },
+      video: { channelId },
+      OR: [{ lastSeenAt: null }, { lastSeenAt: { lt: syncStartedAt } }],
+    },
+    select: { id: true },
+  });
+
+  for (const event of events) {
+    await prisma.copyrightEvent.update({
+      where: { id: event.id },
+      data: { status: 'WITHDRAWN', resolvedAt: new Date() },
+    });
+    await queueEventWebhooks(event.id, 'updated');
+  }
+
+  return events.length;
+}
+
+async function expireStrikes(channelId?: string): Promise<number> {
+  const now = new Date();
+
+  const strikes = await prisma.copyrightStrike.findMany({
+    where: {
+      status: 'ACTIVE',
+      expiresAt: { lte: now },
+      courseCompletedAt: { not: null },
+      ...(channelId && { channelId }),
+    },
+    select: { id: true, copyrightEventId: true },
+  });
+
+  for (const strike of strikes) {
+    await prisma.copyrightStrike.update({
+      where: { id: strike.id },
+      data: { status: 'EXPIRED' },
+    });
+
+    if (strike.copyrightEventId) {
+      await prisma.copyrightEvent.update({
+        where: { id: strike.copyrightEventId },
+        data: { status: 'EXPIRED', resolvedAt: now },
+      });
+      await queueEventWebhooks(strike.copyrightEventId, 'updated');
+    }
+  }
+
+  return strikes.length;
+}
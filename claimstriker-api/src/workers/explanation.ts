@@ -0,0 +1,60 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { generateEventExplanation } from '../lib/ai/eventExplanation.js';
+import type { ExplanationJob } from './queue.js';
+
+/**
+ * Write a creator-friendly explanation for a copyright event.
+ */
+export async function processExplanation(job: Job<ExplanationJob>) {
+  const { eventId } = job.data;
+
+  console.log(`[Explanation] Explaining event ${eventId}`);
+
+  const event = await prisma.copyrightEvent.findUnique({
+    where: { id: eventId },
+    include: {
+      video: {
+        select: { title: true },
+      },
+      claimant: {
+        select: { name: true },
+      },
+    },
+  });
+
+  if (!event) {
+    console.log(`[Explanation] Event ${eventId} not found`);
+    return;
+  }
+
+  const rawData = (event.rawData || {}) as { changeDescription?: string };
+
+  try {
+    const explanation = await generateEventExplanation({
+      type: event.type,
+      status: event.status,
+      videoTitle: event.video.title,
+      claimantName: event.claimant?.name,
+      claimedContent: event.claimedContent,
+      contentType: event.contentType,
+      policyAction: event.policyAction,
+      matchStartMs: event.matchStartMs,
+      matchEndMs: event.matchEndMs,
+      totalMatchMs: event.totalMatchMs,
+      matchPercent: event.matchPercent,
+      affectedRegions: event.affectedRegions,
+      changeDescription: rawData.changeDescription,
+    });
+
+    await prisma.copyrightEvent.update({
+      where: { id: eventId },
+      data: { explanation },
+    });
+
+    console.log(`[Explanation] Explanation saved for event ${eventId}`);
+  } catch (error: any) {
+    console.error(`[Explanation] Error explaining event ${eventId}:`, error.message);
+    throw error;
+  }
+}
@@ -8,11 +8,25 @@ import {
   type ClaimSyncJob,
   type ClaimDetectJob,
   type NotificationJob,
+  type ExplanationJob,
+  type ClaimantStatsJob,
+  type DigestJob,
+  type WebhookJob,
+  type EventSweepJob,
+  type TokenRefreshJob,
+  type KeyRotationJob,
 } from './queue.js';
 import { processChannelSync } from './channelSync.js';
 import { processClaimSync } from './claimSync.js';
 import { processClaimDetect } from './claimDetect.js';
 import { processNotification } from './notification.js';
+import { processExplanation } from './explanation.js';
+import { processClaimantStats } from './claimantStats.js';
+import { processDigest } from './digest.js';
+import { processWebhook } from './webhook.js';
+import { processEventSweep } from './eventSweep.js';
+import { processTokenRefresh } from './tokenRefresh.js';
+import { processKeyRotation } from './keyRotation.js';
 import { runScheduler } from './scheduler.js';
 
 console.log('Starting ClaimStriker workers...');
@@ -41,11 +55,53 @@ const notificationWorker = createWorker<NotificationJob>(
   processNotification
 );
 
+const explanationWorker = createWorker<ExplanationJob>(
+  QUEUE_NAMES.EXPLANATION,
+  processExplanation
+);
+
+const claimantStatsWorker = createWorker<ClaimantStatsJob>(
+  QUEUE_NAMES.CLAIMANT_STATS,
+  processClaimantStats
+);
+
+const digestWorker = createWorker<DigestJob>(
+  QUEUE_NAMES.DIGEST,
+  processDigest
+);
+
+const webhookWorker = createWorker<WebhookJob>(
+  QUEUE_NAMES.WEBHOOK,
+  processWebhook
+);
+
+const eventSweepWorker = createWorker<EventSweepJob>(
+  QUEUE_NAMES.EVENT_SWEEP,
+  processEventSweep
+);
+
+const tokenRefreshWorker = createWorker<TokenRefreshJob>(
+  QUEUE_NAMES.TOKEN_REFRESH,
+  processTokenRefresh
+);
+
+const keyRotationWorker = createWorker<KeyRotationJob>(
+  QUEUE_NAMES.KEY_ROTATION,
+  processKeyRotation
+);
+
 console.log('Workers started:');
 console.log(`  - ${QUEUE_NAMES.CHANNEL_SYNC}`);
 console.log(`  - ${QUEUE_NAMES.CLAIM_SYNC}`);
 console.log(`  - ${QUEUE_NAMES.CLAIM_DETECT}`);
 console.log(`  - ${QUEUE_NAMES.NOTIFICATION}`);
+console.log(`  - ${QUEUE_NAMES.EXPLANATION}`);
+console.log(`  - ${QUEUE_NAMES.CLAIMANT_STATS}`);
+console.log(`  - ${QUEUE_NAMES.DIGEST}`);
+console.log(`  - ${QUEUE_NAMES.WEBHOOK}`);
+console.log(`  - ${QUEUE_NAMES.EVENT_SWEEP}`);
+console.log(`  - ${QUEUE_NAMES.TOKEN_REFRESH}`);
+console.log(`  - ${QUEUE_NAMES.KEY_ROTATION}`);
 
 // Start scheduler
 await runScheduler();
@@ -62,6 +118,13 @@ signals.forEach((signal) => {
       claimSyncWorker.close(),
       claimDetectWorker.close(),
       notificationWorker.close(),
+      explanationWorker.close(),
+      claimantStatsWorker.close(),
+      digestWorker.close(),
+      webhookWorker.close(),
+      eventSweepWorker.close(),
+      tokenRefreshWorker.close(),
+      keyRotationWorker.close(),
     ]);
     console.log('Workers closed');
 
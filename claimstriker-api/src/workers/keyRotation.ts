@@ -0,0 +1,183 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { getActiveKeyId, getActiveKeyPrefix, reEncrypt } from '../lib/encryption.js';
+import type { KeyRotationJob } from './queue.js';
+
+const BATCH_SIZE = 100;
+
+interface RotationCounts {
+  migrated: number;
+  skipped: number; // Rewritten concurrently, e.g. by a token refresh, which already uses the active key
+  failed: number;
+}
+
+function notActiveKey() {
+  return { not: { startsWith: getActiveKeyPrefix() } };
+}
+
+function channelsToRotate() {
+  return { OR: [{ accessToken: notActiveKey() }, { refreshToken: notActiveKey() }] };
+}
+
+// Only users who started 2FA setup have a secret
+function usersToRotate() {
+  return { AND: [{ totpSecret: { not: null } }, { totpSecret: notActiveKey() }] };
+}
+
+/**
+ * Encrypted values still written with a key other than the active one.
+ */
+export async function countPendingReEncryption() {
+  const [channels, webhookEndpoints, chatIntegrations, users] = await Promise.all([
+    prisma.channel.count({ where: channelsToRotate() }),
+    prisma.webhookEndpoint.count({ where: { secret: notActiveKey() } }),
+    prisma.chatIntegration.count({ where: { webhookUrl: notActiveKey() } }),
+    prisma.user.count({ where: usersToRotate() }),
+  ]);
+
+  return { channels, webhookEndpoints, chatIntegrations, users };
+}
+
+/**
+ * Walk the records still needing re-encryption in id order. Each update only applies
+ * if the stored value is unchanged, so a concurrent write is never overwritten.
+ */
+async function rotateInBatches<T extends { id: string }>(
+  label: string,
+  fetchBatch: (afterId: string | undefined) => Promise<T[]>,
+  rotate: (record: T) => Promise<boolean>
+): Promise<RotationCounts> {
+  const counts: RotationCounts = { migrated: 0, skipped: 0, failed: 0 };
+  let afterId: string | undefined;
+
+  while (true) {
+    const records = await fetchBatch(afterId);
+    if (records.length === 0) {
+      break;
+    }
+
+    for (const record of records) {
+      try {
+        if (await rotate(record)) {
+          counts.migrated++;
+        } else {
+          counts.skipped++;
+        }
+      } catch (error: any) {
+        // Usually a value written with a key that is no longer configured
+        console.error(`[KeyRotation] Error re-encrypting ${label} ${record.id}:`, error.message);
+        counts.failed++;
+      }
+    }
+
+    afterId = records[records.length - 1].id;
+  }
+
+  console.log(
+    `[KeyRotation] ${label}: ${counts.migrated} migrated, ${counts.skipped} skipped, ${counts.failed} failed`
+  );
+  return counts;
+}
+
+/**
+ * Re-encrypt stored OAuth tokens, webhook secrets, chat webhook URLs and TOTP secrets
+ * with the active key.
+ */
+export async function processKeyRotation(job: Job<KeyRotationJob>) {
+  const { requestedBy } = job.data;
+
+  console.log(
+    `[KeyRotation] Re-encrypting with key "${getActiveKeyId()}" (requested by ${requestedBy})`
+  );
+
+  try {
+    const results = [
+      await rotateInBatches(
+        'channel',
+        (afterId) =>
+          prisma.channel.findMany({
+            where: { ...channelsToRotate(), ...(afterId && { id: { gt: afterId } }) },
+            select: { id: true, accessToken: true, refreshToken: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+          }),
+        async (channel) => {
+          const { count } = await prisma.channel.updateMany({
+            where: {
+              id: channel.id,
+              accessToken: channel.accessToken,
+              refreshToken: channel.refreshToken,
+            },
+            data: {
+              accessToken: reEncrypt(channel.accessToken),
+              refreshToken: reEncrypt(channel.refreshToken),
+            },
+          });
+          return count > 0;
+        }
+      ),
+      await rotateInBatches(
+        'webhook endpoint',
+        (afterId) =>
+          prisma.webhookEndpoint.findMany({
+            where: { secret: notActiveKey(), ...(afterId && { id: { gt: afterId } }) },
+            select: { id: true, secret: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+          }),
+        async (endpoint) => {
+          const { count } = await prisma.webhookEndpoint.updateMany({
+            where: { id: endpoint.id, secret: endpoint.secret },
+            data: { secret: reEncrypt(endpoint.secret) },
+          });
+          return count > 0;
+        }
+      ),
+      await rotateInBatches(
+        'chat integration',
+        (afterId) =>
+          prisma.chatIntegration.findMany({
+            where: { webhookUrl: notActiveKey(), ...(afterId && { id: { gt: afterId } }) },
+            select: { id: true, webhookUrl: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+          }),
+        async (integration) => {
+          const { count } = await prisma.chatIntegration.updateMany({
+            where: { id: integration.id, webhookUrl: integration.webhookUrl },
+            data: { webhookUrl: reEncrypt(integration.webhookUrl) },
+          });
+          return count > 0;
+        }
+      ),
+      await rotateInBatches(
+        'user',
+        (afterId) =>
+          prisma.user.findMany({
+            where: { ...usersToRotate(), ...(afterId && { id: { gt: afterId } }) },
+            select: { id: true, totpSecret: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+          }),
+        async (user) => {
+          const { count } = await prisma.user.updateMany({
+            where: { id: user.id, totpSecret: user.totpSecret },
+            data: { totpSecret: reEncrypt(user.totpSecret!) },
+          });
+          return count > 0;
+        }
+      ),
+    ];
+
+    const failed = results.reduce((sum, counts) => sum + counts.failed, 0);
+    if (failed > 0) {
+      // Fail the job so it shows up (and retries); migrated values are not touched again
+      throw new Error(`${failed} values could not be re-encrypted`);
+    }
+
+    console.log('[KeyRotation] Completed');
+  } catch (error) {
+    console.error('[KeyRotation] Error:', error);
+    throw error;
+  }
+}
@@ -1,15 +1,58 @@
 import { Job } from 'bullmq';
+import type { Notification } from '@prisma/client';
 import { prisma } from '../config/database.js';
+import { decrypt } from '../lib/encryption.js';
+import { sendChatNotification } from '../lib/chat/send.js';
+import { getEmailTransport, type EmailTransport } from '../lib/email/transport.js';
+import { renderNotificationEmail } from '../lib/email/templates.js';
+import {
+  NO_DIGEST_TYPES,
+  getDeliveryMode,
+  getQuietHoursDelay,
+} from '../lib/notificationPreferences.js';
+import { notificationQueue } from './queue.js';
 import type { NotificationJob } from './queue.js';
 
 export async function processNotification(job: Job<NotificationJob>) {
-  const { userId, type, title, message, channelId, videoId, eventId, sendEmail } = job.data;
+  const {
+    userId,
+    type,
+    title,
+    message,
+    channelId,
+    videoId,
+    eventId,
+    sendEmail,
+    notificationId,
+    data,
+  } = job.data;
+
+  // Email held back by quiet hours
+  if (notificationId) {
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId },
+    });
+
+    if (notification && !notification.emailSent) {
+      await sendEmailNotification(notification);
+    }
+    return;
+  }
+
+  const delivery = await getDeliveryMode(userId, type);
+
+  // Digest-only types are picked up by the weekly summary instead; a stored DIGEST_ONLY
+  // for a type it doesn't cover is delivered in-app below
+  if (delivery === 'OFF' || (delivery === 'DIGEST_ONLY' && !NO_DIGEST_TYPES.includes(type))) {
+    console.log(`[Notification] Skipping ${type} for user ${userId} (preference: ${delivery})`);
+    return;
+  }
 
   console.log(`[Notification] Creating notification for user ${userId}: ${title}`);
 
   try {
     // Create in-app notification
-    await prisma.notification.create({
+    const notification = await prisma.notification.create({
       data: {
         userId,
         type,
@@ -18,14 +61,32 @@ export async function processNotification(job: Job<NotificationJob>) {
         channelId,
         videoId,
         eventId,
+        data: data as any,
       },
     });
 
-    // Send email if requested
-    if (sendEmail) {
-      await sendEmailNotification(userId, title, message, type);
+    if (delivery === 'EMAIL' && sendEmail !== false) {
+      const settings = await prisma.notificationSettings.findUnique({
+        where: { userId },
+      });
+      const delay = getQuietHoursDelay(settings, type);
+
+      if (delay > 0) {
+        await notificationQueue.add(
+          'deliver-email',
+          { ...job.data, notificationId: notification.id },
+          { delay, jobId: `email-${notification.id}` }
+        );
+        console.log(
+          `[Notification] Quiet hours for user ${userId}, email deferred ${Math.round(delay / 60000)}m`
+        );
+      } else {
+        await sendEmailNotification(notification);
+      }
     }
 
+    await sendChatNotifications(notification);
+
     console.log(`[Notification] Notification created for user ${userId}`);
   } catch (error: any) {
     console.error(`[Notification] Error creating notification:`, error.message);
@@ -33,93 +94,82 @@ export async function processNotification(job: Job<NotificationJob>) {
   }
 }
 
-async function sendEmailNotification(
-  userId: string,
-  title: string,
-  message: string,
-  type: string
-): Promise<void> {
+async function sendEmailNotification(notification: Notification): Promise<void> {
   // Get user email
   const user = await prisma.user.findUnique({
-    where: { id: userId },
+    where: { id: notification.userId },
     select: { email: true, name: true },
   });
 
   if (!user) {
-    console.log(`[Notification] User ${userId} not found, skipping email`);
+    console.log(`[Notification] User ${notification.userId} not found, skipping email`);
     return;
   }
 
-  // TODO: Implement actual email sending with SendGrid
-  // For now, just log it
-  console.log(`[Notification] Would send email to ${user.email}:`);
-  console.log(`  Subject: ${title}`);
-  console.log(`  Body: ${message}`);
-
-  // Example SendGrid implementation:
-  /*
-  import sgMail from '@sendgrid/mail';
-  import { env } from '../config/env.js';
-
-  sgMail.setApiKey(env.SENDGRID_API_KEY);
-
-  const msg = {
-    to: user.email,
-    from: env.EMAIL_FROM,
-    subject: `[ClaimStriker] ${title}`,
-    text: message,
-    html: generateEmailHtml(title, message, type),
-  };
+  const email = renderNotificationEmail({
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    data: notification.data,
+    recipientName: user.name,
+  });
 
-  await sgMail.send(msg);
-  */
+  // Delivery failures, including a misconfigured transport, are logged rather than thrown
+  // so a retry doesn't duplicate the in-app notification
+  let transport: EmailTransport | undefined;
+  try {
+    transport = getEmailTransport();
+    await transport.send({ to: user.email, ...email });
+  } catch (error: any) {
+    console.error(
+      `[Notification] Failed to send email for notification ${notification.id} via ${transport?.name ?? 'unconfigured transport'}:`,
+      error.message
+    );
+    return;
+  }
 
   // Mark notification as email sent
-  await prisma.notification.updateMany({
-    where: {
-      userId,
-      title,
-      emailSent: false,
-    },
+  await prisma.notification.update({
+    where: { id: notification.id },
     data: {
       emailSent: true,
       emailSentAt: new Date(),
     },
   });
+
+  console.log(`[Notification] Email sent to ${user.email} via ${transport.name}`);
 }
 
-function generateEmailHtml(title: string, message: string, type: string): string {
-  const typeColors: Record<string, string> = {
-    NEW_CLAIM: '#f59e0b',
-    NEW_STRIKE: '#ef4444',
-    MONETIZATION_CHANGE: '#3b82f6',
-    SYNC_ERROR: '#6b7280',
-    WEEKLY_SUMMARY: '#8b5cf6',
-  };
-
-  const color = typeColors[type] || '#3b82f6';
-
-  return `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <div style="background: linear-gradient(135deg, ${color}, ${color}dd); padding: 20px; border-radius: 8px 8px 0 0;">
-          <h1 style="color: white; margin: 0; font-size: 24px;">${title}</h1>
-        </div>
-        <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
-          <p style="margin: 0 0 16px 0;">${message}</p>
-          <a href="https://claimstriker.com/dashboard" style="display: inline-block; background: ${color}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">
-            View in Dashboard
-          </a>
-        </div>
-        <p style="color: #6b7280; font-size: 12px; margin-top: 16px;">
-          You're receiving this because you have notifications enabled for your ClaimStriker account.
-        </p>
-      </body>
-    </html>
-  `;
+async function sendChatNotifications(notification: Notification): Promise<void> {
+  const integrations = await prisma.chatIntegration.findMany({
+    where: {
+      userId: notification.userId,
+      isActive: true,
+      notificationTypes: { has: notification.type },
+    },
+  });
+
+  // Like email, failures are recorded on the integration instead of failing the job
+  await Promise.all(
+    integrations.map(async (integration) => {
+      try {
+        await sendChatNotification(integration.provider, decrypt(integration.webhookUrl), notification);
+
+        await prisma.chatIntegration.update({
+          where: { id: integration.id },
+          data: { lastDeliveredAt: new Date(), lastError: null },
+        });
+      } catch (error: any) {
+        console.error(
+          `[Notification] Failed to post notification ${notification.id} to ${integration.provider} integration ${integration.id}:`,
+          error.message
+        );
+
+        await prisma.chatIntegration.update({
+          where: { id: integration.id },
+          data: { lastError: error.message },
+        });
+      }
+    })
+  );
 }
@@ -7,8 +7,17 @@ export const QUEUE_NAMES = {
   CLAIM_SYNC: 'claim-sync',
   CLAIM_DETECT: 'claim-detect',
   NOTIFICATION: 'notification',
+  EXPLANATION: 'explanation',
+  CLAIMANT_STATS: 'claimant-stats',
+  DIGEST: 'digest',
+  WEBHOOK: 'webhook',
+  EVENT_SWEEP: 'event-sweep',
+  TOKEN_REFRESH: 'token-refresh',
+  KEY_ROTATION: 'key-rotation',
 } as const;
 
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
 // Default job options
 const defaultJobOptions = {
   attempts: 3,
@@ -52,6 +61,49 @@ export const notificationQueue = new Queue(QUEUE_NAMES.NOTIFICATION, {
   },
 });
 
+export const explanationQueue = new Queue(QUEUE_NAMES.EXPLANATION, {
+  connection: redis,
+  defaultJobOptions,
+});
+
+export const claimantStatsQueue = new Queue(QUEUE_NAMES.CLAIMANT_STATS, {
+  connection: redis,
+  defaultJobOptions,
+});
+
+export const digestQueue = new Queue(QUEUE_NAMES.DIGEST, {
+  connection: redis,
+  defaultJobOptions,
+});
+
+export const webhookQueue = new Queue(QUEUE_NAMES.WEBHOOK, {
+  connection: redis,
+  defaultJobOptions: {
+    ...defaultJobOptions,
+    attempts: WEBHOOK_MAX_ATTEMPTS,
+    // 30s, 1m, 2m, 4m, ... so a receiver can recover from short outages
+    backoff: {
+      type: 'exponential' as const,
+      delay: 30 * 1000,
+    },
+  },
+});
+
+export const eventSweepQueue = new Queue(QUEUE_NAMES.EVENT_SWEEP, {
+  connection: redis,
+  defaultJobOptions,
+});
+
+export const tokenRefreshQueue = new Queue(QUEUE_NAMES.TOKEN_REFRESH, {
+  connection: redis,
+  defaultJobOptions,
+});
+
+export const keyRotationQueue = new Queue(QUEUE_NAMES.KEY_ROTATION, {
+  connection: redis,
+  defaultJobOptions,
+});
+
 // Job types
 export interface ChannelSyncJob {
   channelId: string;
@@ -69,13 +121,51 @@ export interface ClaimDetectJob {
 
 export interface NotificationJob {
   userId: string;
-  type: 'NEW_CLAIM' | 'NEW_STRIKE' | 'MONETIZATION_CHANGE' | 'SYNC_ERROR' | 'WEEKLY_SUMMARY';
+  type:
+    | 'NEW_CLAIM'
+    | 'NEW_STRIKE'
+    | 'MONETIZATION_CHANGE'
+    | 'DISPUTE_UPDATE'
+    | 'SYNC_ERROR'
+    | 'WEEKLY_SUMMARY';
   title: string;
   message: string;
   channelId?: string;
   videoId?: string;
   eventId?: string;
-  sendEmail?: boolean;
+  sendEmail?: boolean; // false never emails; otherwise the user's preference decides
+  notificationId?: string; // Set on deferred jobs that only deliver the email for an existing notification
+  data?: Record<string, unknown>; // Structured payload, e.g. the weekly summary
+}
+
+export interface ExplanationJob {
+  eventId: string;
+}
+
+export interface DigestJob {
+  userId?: string; // Build one user's digest; fans out to every user when omitted
+  periodEnd?: string; // ISO date; defaults to now
+}
+
+export interface WebhookJob {
+  deliveryId: string;
+}
+
+export interface ClaimantStatsJob {
+  claimantId?: string; // Recalculate a single claimant; all claimants when omitted
+}
+
+export interface EventSweepJob {
+  channelId?: string; // Sweep one channel; every channel when omitted
+  claimSyncStartedAt?: string; // ISO date of a completed full claim sync; claims not seen since are withdrawn
+}
+
+export interface TokenRefreshJob {
+  channelId?: string; // Refresh one channel; every channel with an expiring token when omitted
+}
+
+export interface KeyRotationJob {
+  requestedBy: string; // Admin who started the rotation
 }
 
 // Queue event handlers
@@ -89,6 +179,13 @@ setupQueueEvents(channelSyncQueue, QUEUE_NAMES.CHANNEL_SYNC);
 setupQueueEvents(claimSyncQueue, QUEUE_NAMES.CLAIM_SYNC);
 setupQueueEvents(claimDetectQueue, QUEUE_NAMES.CLAIM_DETECT);
 setupQueueEvents(notificationQueue, QUEUE_NAMES.NOTIFICATION);
+setupQueueEvents(explanationQueue, QUEUE_NAMES.EXPLANATION);
+setupQueueEvents(claimantStatsQueue, QUEUE_NAMES.CLAIMANT_STATS);
+setupQueueEvents(digestQueue, QUEUE_NAMES.DIGEST);
+setupQueueEvents(webhookQueue, QUEUE_NAMES.WEBHOOK);
+setupQueueEvents(eventSweepQueue, QUEUE_NAMES.EVENT_SWEEP);
+setupQueueEvents(tokenRefreshQueue, QUEUE_NAMES.TOKEN_REFRESH);
+setupQueueEvents(keyRotationQueue, QUEUE_NAMES.KEY_ROTATION);
 
 // Helper to create a worker
 export function createWorker<T>(
@@ -122,6 +219,13 @@ export async function closeQueues() {
     claimSyncQueue.close(),
     claimDetectQueue.close(),
     notificationQueue.close(),
+    explanationQueue.close(),
+    claimantStatsQueue.close(),
+    digestQueue.close(),
+    webhookQueue.close(),
+    eventSweepQueue.close(),
+    tokenRefreshQueue.close(),
+    keyRotationQueue.close(),
   ]);
   console.log('All queues closed');
 }
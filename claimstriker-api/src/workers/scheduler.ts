@@ -1,8 +1,26 @@
 import { prisma } from '../config/database.js';
-import { channelSyncQueue } from './queue.js';
-import type { ChannelSyncJob } from './queue.js';
+import {
+  channelSyncQueue,
+  claimantStatsQueue,
+  digestQueue,
+  eventSweepQueue,
+  tokenRefreshQueue,
+} from './queue.js';
+import type {
+  ChannelSyncJob,
+  ClaimantStatsJob,
+  DigestJob,
+  EventSweepJob,
+  TokenRefreshJob,
+} from './queue.js';
 
 const SYNC_INTERVAL_HOURS = 4;
+const CLAIMANT_STATS_INTERVAL_HOURS = 24;
+const EVENT_SWEEP_INTERVAL_HOURS = 1;
+const TOKEN_REFRESH_INTERVAL_MINUTES = 15;
+
+// Mondays at 09:00 UTC
+const WEEKLY_DIGEST_CRON = '0 9 * * 1';
 
 export async function runScheduler() {
   console.log('[Scheduler] Starting scheduler');
@@ -17,6 +35,90 @@ export async function runScheduler() {
     },
     SYNC_INTERVAL_HOURS * 60 * 60 * 1000
   );
+
+  // Recalculate claimant statistics once a day
+  await scheduleClaimantStatsRecalculation();
+
+  setInterval(
+    async () => {
+      await scheduleClaimantStatsRecalculation();
+    },
+    CLAIMANT_STATS_INTERVAL_HOURS * 60 * 60 * 1000
+  );
+
+  // Resolve events whose condition cleared and expire old strikes
+  await scheduleEventSweep();
+
+  setInterval(
+    async () => {
+      await scheduleEventSweep();
+    },
+    EVENT_SWEEP_INTERVAL_HOURS * 60 * 60 * 1000
+  );
+
+  // Refresh YouTube tokens before they expire
+  await scheduleTokenRefresh();
+
+  setInterval(
+    async () => {
+      await scheduleTokenRefresh();
+    },
+    TOKEN_REFRESH_INTERVAL_MINUTES * 60 * 1000
+  );
+
+  await scheduleWeeklyDigest();
+}
+
+async function scheduleTokenRefresh() {
+  try {
+    await tokenRefreshQueue.add(
+      'refresh-tokens',
+      {} as TokenRefreshJob,
+      { jobId: `token-refresh-${Date.now()}` }
+    );
+    console.log('[Scheduler] Queued token refresh');
+  } catch (error) {
+    console.error('[Scheduler] Error scheduling token refresh:', error);
+  }
+}
+
+async function scheduleEventSweep() {
+  try {
+    await eventSweepQueue.add(
+      'sweep-events',
+      {} as EventSweepJob,
+      { jobId: `event-sweep-${Date.now()}` }
+    );
+    console.log('[Scheduler] Queued event sweep');
+  } catch (error) {
+    console.error('[Scheduler] Error scheduling event sweep:', error);
+  }
+}
+
+// A repeatable job survives worker restarts, unlike a week-long setInterval
+async function scheduleWeeklyDigest() {
+  try {
+    await digestQueue.add('weekly-digest', {} as DigestJob, {
+      repeat: { pattern: WEEKLY_DIGEST_CRON, tz: 'UTC' },
+      jobId: 'weekly-digest',
+    });
+    console.log(`[Scheduler] Weekly digest scheduled (${WEEKLY_DIGEST_CRON} UTC)`);
+  } catch (error) {
+    console.error('[Scheduler] Error scheduling weekly digest:', error);
+  }
+}
+
+async function scheduleClaimantStatsRecalculation() {
+  try {
+    await claimantStatsQueue.add(
+      'recalculate-claimant-stats',
+      {} as ClaimantStatsJob,
+      { jobId: `claimant-stats-${Date.now()}` }
+    );
+    console.log('[Scheduler] Queued claimant statistics recalculation');
+  } catch (error) {
+    console.error('[Scheduler] Error scheduling claimant statistics:', error);
+  }
 }
 
 async function scheduleAllChannelSyncs() {
@@ -0,0 +1,138 @@
+import type { StrikeSource } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { findOrCreateClaimant, incrementClaimantClaims } from '../lib/claimants.js';
+import {
+  TERMINATION_STRIKE_COUNT,
+  URGENT_STRIKE_COUNT,
+  activeStrikeWhere,
+  getChannelStanding,
+  getStrikeExpiry,
+} from '../lib/strikes.js';
+import { notificationQueue, explanationQueue } from './queue.js';
+import { queueEventWebhooks } from './webhook.js';
+import type { NotificationJob, ExplanationJob } from './queue.js';
+
+export interface RecordStrikeInput {
+  channelId: string;
+  videoId?: string | null;
+  issuedAt: Date;
+  source: StrikeSource;
+  claimantName?: string | null;
+  reason?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Record a copyright strike, add its STRIKE event to the feed and notify the owner.
+ * Notifications escalate once the channel is one strike away from termination.
+ */
+export async function recordStrike(input: RecordStrikeInput) {
+  const channel = await prisma.channel.findUniqueOrThrow({
+    where: { id: input.channelId },
+    select: { id: true, title: true, userId: true },
+  });
+
+  const video = input.videoId
+    ? await prisma.video.findUnique({
+        where: { id: input.videoId },
+        select: { id: true, title: true },
+      })
+    : null;
+
+  const claimant = input.claimantName ? await findOrCreateClaimant(input.claimantName) : null;
+  if (claimant) {
+    await incrementClaimantClaims(claimant.id);
+  }
+
+  const expiresAt = getStrikeExpiry(input.issuedAt);
+  const description = video
+    ? `"${video.title}" was removed for copyright and the channel received a strike.`
+    : 'The channel received a copyright strike.';
+
+  // One transaction, so a failed strike insert doesn't leave an event for the retry to duplicate
+  const { event, strike } = await prisma.$transaction(async (tx) => {
+    // Strike events are tied to a video; strikes entered without one only live on the channel
+    const event = video
+      ? await tx.copyrightEvent.create({
+          data: {
+            videoId: video.id,
+            type: 'STRIKE',
+            status: 'ACTIVE',
+            claimantId: claimant?.id,
+            explanation: description,
+            detectedAt: input.issuedAt,
+            rawData: {
+              changeDescription: description,
+              source: input.source,
+              reason: input.reason ?? null,
+              detectedAt: new Date().toISOString(),
+            },
+          },
+        })
+      : null;
+
+    const strike = await tx.copyrightStrike.create({
+      data: {
+        channelId: channel.id,
+        videoId: video?.id,
+        copyrightEventId: event?.id,
+        claimantId: claimant?.id,
+        source: input.source,
+        reason: input.reason,
+        notes: input.notes,
+        issuedAt: input.issuedAt,
+        expiresAt,
+      },
+    });
+
+    return { event, strike };
+  });
+
+  if (event) {
+    await explanationQueue.add(
+      'explain-event',
+      { eventId: event.id } as ExplanationJob,
+      { jobId: `explain-${event.id}-${Date.now()}` }
+    );
+    await queueEventWebhooks(event.id, 'created');
+  }
+
+  const activeStrikes = await prisma.copyrightStrike.count({
+    where: { channelId: channel.id, ...activeStrikeWhere() },
+  });
+
+  const urgent = activeStrikes >= URGENT_STRIKE_COUNT;
+  const expiryDate = expiresAt.toISOString().split('T')[0];
+  const expiryNote = `It expires on ${expiryDate} once you complete Copyright School.`;
+
+  await notificationQueue.add('notify', {
+    userId: channel.userId,
+    type: 'NEW_STRIKE',
+    title: urgent
+      ? `Urgent: ${channel.title} has ${activeStrikes} active copyright strikes`
+      : `Copyright strike on ${channel.title}`,
+    message: urgent
+      ? `${description} ${
+          activeStrikes >= TERMINATION_STRIKE_COUNT
+            ? 'With three active strikes YouTube terminates the channel; act now to get a strike retracted.'
+            : 'One more strike will get the channel terminated.'
+        } ${expiryNote}`
+      : `${description} ${expiryNote}`,
+    channelId: channel.id,
+    videoId: video?.id,
+    eventId: event?.id,
+    data: {
+      strikeId: strike.id,
+      activeStrikes,
+      standing: getChannelStanding(activeStrikes),
+      expiresAt: expiresAt.toISOString(),
+      urgent,
+    },
+  } as NotificationJob);
+
+  console.log(
+    `[Strike] Recorded strike ${strike.id} on channel ${channel.id} (${activeStrikes} active)`
+  );
+
+  return strike;
+}
@@ -0,0 +1,41 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { getValidAccessToken } from '../lib/youtube/tokenManager.js';
+import type { TokenRefreshJob } from './queue.js';
+
+// Refresh anything expiring before the job's next run
+const PROACTIVE_REFRESH_WINDOW_MS = 20 * 60 * 1000;
+
+/**
+ * Refresh tokens before they expire, so syncs rarely have to.
+ */
+export async function processTokenRefresh(job: Job<TokenRefreshJob>) {
+  const { channelId } = job.data;
+
+  const channels = await prisma.channel.findMany({
+    where: {
+      status: 'ACTIVE',
+      tokenExpiresAt: { lte: new Date(Date.now() + PROACTIVE_REFRESH_WINDOW_MS) },
+      ...(channelId && { id: channelId }),
+    },
+    select: { id: true },
+  });
+
+  console.log(`[TokenManager] Refreshing ${channels.length} expiring tokens`);
+
+  let failed = 0;
+
+  for (const channel of channels) {
+    try {
+      await getValidAccessToken(channel.id, { minValidityMs: PROACTIVE_REFRESH_WINDOW_MS });
+    } catch (error: any) {
+      // One channel's failure shouldn't hold up the rest; revoked channels are already handled
+      console.error(`[TokenManager] Error refreshing channel ${channel.id}:`, error.message);
+      failed++;
+    }
+  }
+
+  console.log(
+    `[TokenManager] Completed: ${channels.length - failed} refreshed, ${failed} failed`
+  );
+}
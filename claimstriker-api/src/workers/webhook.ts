@@ -0,0 +1,162 @@
+import { Job } from 'bullmq';
+import { prisma } from '../config/database.js';
+import { decrypt } from '../lib/encryption.js';
+import {
+  endpointAcceptsEvent,
+  sendWebhook,
+  webhookEventName,
+  type WebhookEventName,
+} from '../lib/webhooks.js';
+import { webhookQueue } from './queue.js';
+import type { WebhookJob } from './queue.js';
+
+/**
+ * Deliver one webhook. Failed attempts throw so BullMQ retries with backoff;
+ * every attempt is recorded on the WebhookDelivery row.
+ */
+export async function processWebhook(job: Job<WebhookJob>) {
+  const { deliveryId } = job.data;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  });
+
+  if (!delivery) {
+    console.log(`[Webhook] Delivery ${deliveryId} not found`);
+    return;
+  }
+
+  if (!delivery.endpoint.isActive) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'FAILED', error: 'Endpoint is disabled' },
+    });
+    return;
+  }
+
+  console.log(`[Webhook] Delivering ${delivery.eventType} to ${delivery.endpoint.url}`);
+
+  const result = await sendWebhook(delivery.endpoint.url, decrypt(delivery.endpoint.secret), {
+    id: delivery.id,
+    event: delivery.eventType as WebhookEventName,
+    createdAt: delivery.createdAt.toISOString(),
+    data: delivery.payload as Record<string, unknown>,
+  });
+
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: result.ok ? 'SUCCEEDED' : isFinalAttempt ? 'FAILED' : 'PENDING',
+      attempts: { increment: 1 },
+      responseStatus: result.status,
+      error: result.error,
+      durationMs: result.durationMs,
+      deliveredAt: result.ok ? new Date() : null,
+    },
+  });
+
+  if (!result.ok) {
+    console.error(`[Webhook] Delivery ${deliveryId} failed:`, result.error);
+    throw new Error(result.error || 'Webhook delivery failed');
+  }
+}
+
+export async function queueWebhookDelivery(deliveryId: string): Promise<void> {
+  await webhookQueue.add(
+    'deliver-webhook',
+    { deliveryId } as WebhookJob,
+    { jobId: `webhook-${deliveryId}` }
+  );
+}
+
+/**
+ * Create deliveries for every endpoint of the event's owner that subscribed to it.
+ */
+export async function queueEventWebhooks(
+  eventId: string,
+  action: 'created' | 'updated'
+): Promise<void> {
+  const event = await prisma.copyrightEvent.findUnique({
+    where: { id: eventId },
+    include: {
+      video: {
+        select: {
+          id: true,
+          youtubeVideoId: true,
+          title: true,
+          channel: {
+            select: { id: true, title: true, userId: true },
+          },
+        },
+      },
+      claimant: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+
+  if (!event) {
+    return;
+  }
+
+  const eventName = webhookEventName(event.type, action);
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { userId: event.video.channel.userId, isActive: true },
+    select: { id: true, eventTypes: true },
+  });
+
+  const subscribed = endpoints.filter((endpoint) =>
+    endpointAcceptsEvent(endpoint.eventTypes, eventName)
+  );
+
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const data = {
+    event: {
+      id: event.id,
+      type: event.type,
+      status: event.status,
+      youtubeClaimId: event.youtubeClaimId,
+      policyAction: event.policyAction,
+      contentType: event.contentType,
+      claimedContent: event.claimedContent,
+      matchStartMs: event.matchStartMs,
+      matchEndMs: event.matchEndMs,
+      totalMatchMs: event.totalMatchMs,
+      matchPercent: event.matchPercent,
+      affectedRegions: event.affectedRegions,
+      explanation: event.explanation,
+      detectedAt: event.detectedAt.toISOString(),
+      resolvedAt: event.resolvedAt?.toISOString() ?? null,
+    },
+    claimant: event.claimant,
+    video: {
+      id: event.video.id,
+      youtubeVideoId: event.video.youtubeVideoId,
+      title: event.video.title,
+      url: `https://www.youtube.com/watch?v=${event.video.youtubeVideoId}`,
+    },
+    channel: {
+      id: event.video.channel.id,
+      title: event.video.channel.title,
+    },
+  };
+
+  for (const endpoint of subscribed) {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: endpoint.id,
+        eventType: eventName,
+        payload: data,
+      },
+    });
+
+    await queueWebhookDelivery(delivery.id);
+  }
+}
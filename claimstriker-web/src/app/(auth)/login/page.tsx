@@ -6,7 +6,7 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { api } from '@/lib/api';
+import { api, type LoginResult } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -19,7 +19,7 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
-import { Shield } from 'lucide-react';
+import { Shield, ShieldCheck } from 'lucide-react';
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email'),
@@ -32,6 +32,9 @@ export default function LoginPage() {
   const router = useRouter();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  // Set after the password step when the account has 2FA on
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
 
   const {
     register,
@@ -41,21 +44,43 @@ export default function LoginPage() {
     resolver: zodResolver(loginSchema),
   });
 
+  const completeLogin = (result: LoginResult) => {
+    api.setToken(result.token!);
+
+    toast({
+      title: 'Welcome back!',
+      description: 'You have successfully logged in.',
+    });
+
+    if (result.recoveryCodesRemaining !== undefined) {
+      toast({
+        title: 'Recovery code used',
+        description: `You have ${result.recoveryCodesRemaining} recovery codes left. Generate new ones in Settings.`,
+      });
+    }
+
+    if (result.twoFactorSetupRequired) {
+      toast({
+        title: 'Two-factor authentication required',
+        description: 'Set up two-factor authentication to use the admin area.',
+      });
+      router.push('/settings');
+      return;
+    }
+
+    router.push('/dashboard');
+  };
+
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true);
     try {
       const response = await api.login(data.email, data.password);
       if (response.success && response.data) {
-        // Store token
-        localStorage.setItem('token', response.data.token);
-        api.setToken(response.data.token);
-
-        toast({
-          title: 'Welcome back!',
-          description: 'You have successfully logged in.',
-        });
-
-        router.push('/dashboard');
+        if (response.data.twoFactorRequired) {
+          setChallengeToken(response.data.challengeToken!);
+        } else {
+          completeLogin(response.data);
+        }
       }
     } catch (error: any) {
       toast({
@@ -68,6 +93,83 @@ export default function LoginPage() {
     }
   };
 
+  const onSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await api.loginTwoFactor(challengeToken, code.trim());
+      if (response.success && response.data) {
+        completeLogin(response.data);
+      }
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Verification failed',
+        description: error.message || 'Invalid authentication code',
+      });
+      // Too many wrong codes or a stale challenge; the password step has to be repeated
+      if (error.message?.includes('sign in again')) {
+        setChallengeToken(null);
+        setCode('');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <Card>
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center mb-4">
+            <div className="p-3 bg-primary/10 rounded-full">
+              <ShieldCheck className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl text-center">Two-factor authentication</CardTitle>
+          <CardDescription className="text-center">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={onSubmitCode}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">Authentication code</Label>
+              <Input
+                id="code"
+                autoComplete="one-time-code"
+                autoFocus
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col gap-4">
+            <Button type="submit" className="w-full" disabled={isLoading || !code.trim()}>
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </Button>
+            <button
+              type="button"
+              className="text-sm text-muted-foreground hover:underline"
+              onClick={() => {
+                setChallengeToken(null);
+                setCode('');
+              }}
+            >
+              Back to sign in
+            </button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader className="space-y-1">
@@ -97,7 +199,12 @@ export default function LoginPage() {
             )}
           </div>
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Password</Label>
+              <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                Forgot password?
+              </Link>
+            </div>
             <Input
               id="password"
               type="password"
@@ -53,8 +53,6 @@ export default function RegisterPage() {
     try {
       const response = await api.register(data.email, data.password, data.name);
       if (response.success && response.data) {
-        // Store token
-        localStorage.setItem('token', response.data.token);
         api.setToken(response.data.token);
 
         toast({
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { KeyRound } from 'lucide-react';
+
+const resetPasswordSchema = z
+  .object({
+    password: z.string().min(8, 'Password must be at least 8 characters'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    if (!token) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await api.resetPassword(token, data.password);
+
+      toast({
+        title: 'Password updated',
+        description: 'Sign in with your new password.',
+      });
+
+      router.push('/login');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Reset failed',
+        description: error.message || 'Could not reset your password',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <div className="flex items-center justify-center mb-4">
+          <div className="p-3 bg-primary/10 rounded-full">
+            <KeyRound className="h-8 w-8 text-primary" />
+          </div>
+        </div>
+        <CardTitle className="text-2xl text-center">Choose a new password</CardTitle>
+        <CardDescription className="text-center">
+          You&apos;ll be signed out on all your devices
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <CardContent className="space-y-4">
+          {token === null && (
+            <p className="text-sm text-destructive">
+              This reset link is incomplete. Open the link from your email again.
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="password">New password</Label>
+            <Input
+              id="password"
+              type="password"
+              placeholder="At least 8 characters"
+              {...register('password')}
+              disabled={isLoading || !token}
+            />
+            {errors.password && (
+              <p className="text-sm text-destructive">{errors.password.message}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              placeholder="Repeat the password"
+              {...register('confirmPassword')}
+              disabled={isLoading || !token}
+            />
+            {errors.confirmPassword && (
+              <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col gap-4">
+          <Button type="submit" className="w-full" disabled={isLoading || !token}>
+            {isLoading ? 'Saving...' : 'Set new password'}
+          </Button>
+          <p className="text-sm text-muted-foreground text-center">
+            Link expired?{' '}
+            <Link href="/forgot-password" className="text-primary hover:underline">
+              Request a new one
+            </Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
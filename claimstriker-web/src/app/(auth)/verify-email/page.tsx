@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+
+type VerifyState = { status: 'verifying' } | { status: 'verified' } | { status: 'failed'; error: string };
+
+export default function VerifyEmailPage() {
+  const [state, setState] = useState<VerifyState>({ status: 'verifying' });
+  // Tokens are single use, so don't send it twice (e.g. from a strict-mode double effect)
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) {
+      return;
+    }
+    started.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setState({ status: 'failed', error: 'This verification link is incomplete.' });
+      return;
+    }
+
+    api
+      .verifyEmail(token)
+      .then(() => setState({ status: 'verified' }))
+      .catch((error) => setState({ status: 'failed', error: error.message }));
+  }, []);
+
+  const Icon =
+    state.status === 'verifying' ? Loader2 : state.status === 'verified' ? CheckCircle : XCircle;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <div className="flex items-center justify-center mb-4">
+          <div className="p-3 bg-primary/10 rounded-full">
+            <Icon
+              className={
+                state.status === 'verifying'
+                  ? 'h-8 w-8 text-primary animate-spin'
+                  : state.status === 'verified'
+                    ? 'h-8 w-8 text-green-600'
+                    : 'h-8 w-8 text-destructive'
+              }
+            />
+          </div>
+        </div>
+        <CardTitle className="text-2xl text-center">
+          {state.status === 'verifying'
+            ? 'Verifying your email...'
+            : state.status === 'verified'
+              ? 'Email verified'
+              : 'Verification failed'}
+        </CardTitle>
+        <CardDescription className="text-center">
+          {state.status === 'verified'
+            ? 'Thanks! Claim alerts will now reach your inbox.'
+            : state.status === 'failed'
+              ? `${state.error} You can request a new link from your dashboard.`
+              : 'This only takes a moment.'}
+        </CardDescription>
+      </CardHeader>
+      {state.status !== 'verifying' && (
+        <CardFooter>
+          <Button className="w-full" asChild>
+            <Link href="/dashboard">Go to dashboard</Link>
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
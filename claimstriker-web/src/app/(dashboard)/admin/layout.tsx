@@ -11,6 +11,8 @@ interface User {
   name: string | null;
   role: 'USER' | 'ADMIN' | 'SUPER_ADMIN';
   permissions: string[];
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
 }
 
 export default function AdminLayout({
@@ -24,14 +26,6 @@ export default function AdminLayout({
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      router.push('/login');
-      return;
-    }
-
-    api.setToken(token);
-
     api
       .getMe()
       .then((response) => {
@@ -39,6 +33,8 @@ export default function AdminLayout({
           const userData = response.data as User;
           if (userData.role !== 'ADMIN' && userData.role !== 'SUPER_ADMIN') {
             setError('Access denied. Admin privileges required.');
+          } else if (userData.twoFactorRequired && !userData.twoFactorEnabled) {
+            setError('Set up two-factor authentication in Settings to use the admin area.');
           } else {
             setUser(userData);
           }
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { api } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SecurityPolicyCard } from '@/components/security-policy';
 import {
   Users,
   Youtube,
@@ -31,11 +32,6 @@ export default function AdminDashboardPage() {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      api.setToken(token);
-    }
-
     api
       .getAdminStats()
       .then((response) => {
@@ -248,6 +244,8 @@ export default function AdminDashboardPage() {
           </div>
         </CardContent>
       </Card>
+
+      <SecurityPolicyCard />
     </div>
   );
 }
@@ -70,11 +70,6 @@ export default function AdminUsersPage() {
   }, [page, search]);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      api.setToken(token);
-    }
-
     // Get current user permissions
     api.getMe().then((response) => {
       if (response.success && response.data) {
@@ -1,13 +1,15 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Image from 'next/image';
 import { api } from '@/lib/api';
-import { formatDate, formatNumber } from '@/lib/utils';
+import { formatCurrency, formatDate, formatNumber } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/use-toast';
+import { ChannelStrikes, StrikeStandingBadge } from '@/components/channel-strikes';
 import {
   Youtube,
   RefreshCw,
@@ -18,12 +20,51 @@ import {
   AlertCircle,
   Clock,
   Plus,
+  ShieldAlert,
 } from 'lucide-react';
 
+// Outcomes of the YouTube OAuth callback, passed back as query params
+const linkSuccessMessages: Record<string, string> = {
+  connected: 'Your YouTube channel is connected.',
+  reconnected: 'Your YouTube channel was reconnected.',
+};
+
+const linkErrorMessages: Record<string, string> = {
+  invalid_callback: 'YouTube returned an incomplete response. Please try again.',
+  invalid_state: 'The link request could not be verified. Please start again.',
+  state_expired: 'The link request expired. Please start again.',
+  state_replayed: 'This link request was already used. Please start again.',
+  user_not_found: 'Your account could not be found.',
+  channel_already_linked: 'This channel is already linked to another account.',
+  link_failed: 'Linking the channel failed. Please try again.',
+};
+
 export default function ChannelsPage() {
   const { toast } = useToast();
+  const router = useRouter();
   const queryClient = useQueryClient();
   const [connecting, setConnecting] = useState(false);
+  const [strikesChannelId, setStrikesChannelId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const success = params.get('success');
+    const error = params.get('error');
+
+    if (success) {
+      toast({ title: 'Channel linked', description: linkSuccessMessages[success] });
+    } else if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to connect',
+        description: linkErrorMessages[error] || 'Please try again.',
+      });
+    }
+
+    if (success || error) {
+      router.replace('/channels');
+    }
+  }, [toast, router]);
 
   const { data: channels, isLoading } = useQuery({
     queryKey: ['channels'],
@@ -194,6 +235,7 @@ export default function ChannelsPage() {
                       <span className="text-sm text-muted-foreground">
                         {getStatusText(channel.status)}
                       </span>
+                      {channel.strikes && <StrikeStandingBadge standing={channel.strikes} />}
                     </div>
                     <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
                       <span>
@@ -211,8 +253,23 @@ export default function ChannelsPage() {
                         {channel.lastSyncError}
                       </p>
                     )}
+                    {channel.estimatedRevenueAtRisk > 0 && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        Est. revenue at risk: {formatCurrency(channel.estimatedRevenueAtRisk)}
+                      </p>
+                    )}
+                    {channel.strikes?.nextExpiryAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Next strike expires: {formatDate(channel.strikes.nextExpiryAt)}
+                      </p>
+                    )}
                   </div>
                 </div>
+                {strikesChannelId === channel.id && (
+                  <div className="mt-4 pt-4 border-t">
+                    <ChannelStrikes channelId={channel.id} />
+                  </div>
+                )}
                 <div className="flex items-center gap-2 mt-4 pt-4 border-t">
                   <Button
                     variant="outline"
@@ -267,6 +324,16 @@ export default function ChannelsPage() {
                       Reconnect
                     </Button>
                   )}
+                  <Button
+                    variant={strikesChannelId === channel.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() =>
+                      setStrikesChannelId(strikesChannelId === channel.id ? null : channel.id)
+                    }
+                  >
+                    <ShieldAlert className="h-4 w-4 mr-2" />
+                    Strikes
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
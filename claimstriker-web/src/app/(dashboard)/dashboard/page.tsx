@@ -2,6 +2,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   AlertTriangle,
@@ -97,6 +98,32 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Channels close to termination */}
+      {stats?.strikesByChannel
+        ?.filter((channel) => channel.activeStrikes >= 2)
+        .map((channel) => (
+          <Card key={channel.channelId} className="border-red-300 bg-red-50">
+            <CardContent className="p-4 flex items-center gap-4">
+              <ShieldAlert className="h-6 w-6 text-red-600 shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium text-red-700">
+                  {channel.title} has {channel.activeStrikes} active copyright strikes
+                </p>
+                <p className="text-sm text-red-600">
+                  {channel.activeStrikes >= 3
+                    ? 'YouTube terminates channels with three active strikes.'
+                    : 'One more strike will get this channel terminated.'}
+                  {channel.nextExpiryAt &&
+                    ` The oldest strike can expire on ${formatDate(channel.nextExpiryAt)}.`}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/channels">Review strikes</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+
       {/* Stats Grid */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {statCards.map((stat) => (
@@ -18,8 +18,11 @@ import {
   ChevronRight,
   Users,
   CheckCircle,
+  Settings,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { NotificationBell } from '@/components/notification-bell';
+import { VerifyEmailBanner } from '@/components/verify-email-banner';
 import {
   Tooltip,
   TooltipContent,
@@ -34,6 +37,7 @@ const navigation = [
   { name: 'Channels', href: '/channels', icon: Youtube },
   { name: 'Videos', href: '/videos', icon: Video },
   { name: 'Events', href: '/events', icon: AlertTriangle },
+  { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
 const adminNavigation = [
@@ -46,6 +50,7 @@ interface User {
   name: string | null;
   role: 'USER' | 'ADMIN' | 'SUPER_ADMIN';
   permissions: string[];
+  emailVerified: boolean;
   hasPartnerAccess: boolean;
   channelCount: number;
 }
@@ -78,14 +83,7 @@ export default function DashboardLayout({
   };
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      router.push('/login');
-      return;
-    }
-
-    api.setToken(token);
-
+    // After a reload the first request restores the access token from the refresh cookie
     api
       .getMe()
       .then((response) => {
@@ -96,7 +94,6 @@ export default function DashboardLayout({
         }
       })
       .catch(() => {
-        localStorage.removeItem('token');
         router.push('/login');
       })
       .finally(() => {
@@ -104,9 +101,12 @@ export default function DashboardLayout({
       });
   }, [router]);
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    api.setToken(null);
+  const handleLogout = async () => {
+    try {
+      await api.logout();
+    } catch {
+      // Signed out locally either way; the session expires on its own
+    }
     router.push('/login');
   };
 
@@ -180,13 +180,15 @@ export default function DashboardLayout({
             <div
               className={cn(
                 'flex items-center gap-2 px-4 py-4 border-b',
-                collapsed ? 'justify-center' : 'px-6'
+                collapsed ? 'flex-col justify-center' : 'px-6'
               )}
             >
               <Shield className="h-8 w-8 text-primary flex-shrink-0" />
+              {!collapsed && <span className="text-xl font-bold">ClaimStriker</span>}
+              {/* Mobile uses the bell in the header instead */}
+              <NotificationBell className={cn('hidden lg:block', !collapsed && 'ml-auto')} />
               {!collapsed && (
                 <>
-                  <span className="text-xl font-bold">ClaimStriker</span>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -202,7 +204,7 @@ export default function DashboardLayout({
             {/* Navigation */}
             <nav className="flex-1 px-2 py-4 space-y-1">
               {navigation.map((item) => {
-                const isActive = pathname === item.href;
+                const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
                 return <NavLink key={item.name} item={item} isActive={isActive} />;
               })}
 
@@ -372,11 +374,15 @@ export default function DashboardLayout({
               </Button>
               <Shield className="h-6 w-6 text-primary" />
               <span className="font-bold">ClaimStriker</span>
+              <NotificationBell align="right" className="ml-auto" />
             </div>
           </header>
 
           {/* Page content */}
-          <main className="p-4 lg:p-8">{children}</main>
+          <main className="p-4 lg:p-8">
+            {!user?.emailVerified && <VerifyEmailBanner email={user?.email} />}
+            {children}
+          </main>
         </div>
       </div>
     </TooltipProvider>
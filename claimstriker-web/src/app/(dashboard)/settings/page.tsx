@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  api,
+  type NotificationDelivery,
+  type NotificationPreferences,
+} from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { ChatIntegrationsCard } from '@/components/chat-integrations';
+import { ActiveSessionsCard } from '@/components/active-sessions';
+import { TwoFactorCard } from '@/components/two-factor';
+import { Bell, Moon, Save } from 'lucide-react';
+
+const typeLabels: Record<string, { label: string; description: string }> = {
+  NEW_CLAIM: {
+    label: 'New claims',
+    description: 'A Content ID claim appears on one of your videos',
+  },
+  NEW_STRIKE: {
+    label: 'Copyright strikes',
+    description: 'Your channel receives a strike (always sent, even during quiet hours)',
+  },
+  MONETIZATION_CHANGE: {
+    label: 'Monetization & region changes',
+    description: 'A video becomes blocked, private or restricted in some countries',
+  },
+  DISPUTE_UPDATE: {
+    label: 'Dispute updates',
+    description: 'The status of one of your disputes changes',
+  },
+  SYNC_ERROR: {
+    label: 'Sync errors',
+    description: 'We could not sync a channel',
+  },
+  WEEKLY_SUMMARY: {
+    label: 'Weekly summary',
+    description: 'A digest of the past week',
+  },
+};
+
+const deliveryOptions: { value: NotificationDelivery; label: string }[] = [
+  { value: 'EMAIL', label: 'In-app & email' },
+  { value: 'IN_APP', label: 'In-app only' },
+  { value: 'DIGEST_ONLY', label: 'Weekly digest only' },
+  { value: 'OFF', label: 'Off' },
+];
+
+// Types the weekly summary doesn't cover, so they can't be digest-only
+const NO_DIGEST_TYPES: string[] = ['SYNC_ERROR', 'WEEKLY_SUMMARY'];
+
+function getTimezones(): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf;
+  return typeof supportedValuesOf === 'function' ? supportedValuesOf('timeZone') : ['UTC'];
+}
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<NotificationPreferences | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: () => api.getNotificationPreferences(),
+  });
+
+  useEffect(() => {
+    if (data?.data) {
+      setForm(data.data);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (preferences: NotificationPreferences) =>
+      api.updateNotificationPreferences(preferences),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['notification-preferences'], response);
+      toast({
+        title: 'Settings saved',
+        description: 'Your notification preferences have been updated.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save settings',
+        description: error.message,
+      });
+    },
+  });
+
+  const setDelivery = (type: string, delivery: NotificationDelivery) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      preferences: form.preferences.map((pref) =>
+        pref.type === type ? { ...pref, delivery } : pref
+      ),
+    });
+  };
+
+  const setQuietHours = (changes: Partial<NotificationPreferences['quietHours']>) => {
+    if (!form) return;
+    setForm({ ...form, quietHours: { ...form.quietHours, ...changes } });
+  };
+
+  if (isLoading || !form) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <Card>
+          <CardContent className="p-6">
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+              <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Settings</h1>
+          <p className="text-muted-foreground">
+            Choose how and when ClaimStriker notifies you
+          </p>
+        </div>
+        <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? 'Saving...' : 'Save changes'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {form.preferences.map((pref) => (
+            <div
+              key={pref.type}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3 first:pt-0 last:pb-0"
+            >
+              <div>
+                <p className="text-sm font-medium">{typeLabels[pref.type]?.label || pref.type}</p>
+                <p className="text-xs text-muted-foreground">
+                  {typeLabels[pref.type]?.description}
+                </p>
+              </div>
+              <select
+                value={pref.delivery}
+                onChange={(e) => setDelivery(pref.type, e.target.value as NotificationDelivery)}
+                className="text-sm border rounded-md px-3 py-2 bg-white min-w-[180px]"
+              >
+                {deliveryOptions
+                  .filter(
+                    (option) =>
+                      option.value !== 'DIGEST_ONLY' || !NO_DIGEST_TYPES.includes(pref.type)
+                  )
+                  .map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="h-5 w-5" />
+            Quiet hours
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.quietHours.enabled}
+              onChange={(e) => setQuietHours({ enabled: e.target.checked })}
+              className="h-4 w-4"
+            />
+            Hold emails during quiet hours and send them when quiet hours end
+          </label>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-start">From</Label>
+              <Input
+                id="quiet-start"
+                type="time"
+                value={form.quietHours.start}
+                disabled={!form.quietHours.enabled}
+                onChange={(e) => setQuietHours({ start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-end">Until</Label>
+              <Input
+                id="quiet-end"
+                type="time"
+                value={form.quietHours.end}
+                disabled={!form.quietHours.enabled}
+                onChange={(e) => setQuietHours({ end: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-timezone">Timezone</Label>
+              <select
+                id="quiet-timezone"
+                value={form.quietHours.timezone}
+                disabled={!form.quietHours.enabled}
+                onChange={(e) => setQuietHours({ timezone: e.target.value })}
+                className="flex h-10 w-full text-sm border rounded-md px-3 py-2 bg-white disabled:opacity-50"
+              >
+                {Array.from(new Set([form.quietHours.timezone, ...getTimezones()])).map((tz) => (
+                  <option key={tz} value={tz}>
+                    {tz}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ChatIntegrationsCard />
+
+      <TwoFactorCard />
+
+      <ActiveSessionsCard />
+    </div>
+  );
+}
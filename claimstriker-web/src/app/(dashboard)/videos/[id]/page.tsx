@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import Image from 'next/image';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate, formatDuration, formatNumber } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ClaimTimeline } from '@/components/claim-timeline';
+import { RegionMap } from '@/components/region-map';
+import { ArrowLeft, ExternalLink, Video, AlertTriangle, Globe, Scissors } from 'lucide-react';
+
+export default function VideoDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['video', id],
+    queryFn: () => api.getVideo(id),
+  });
+
+  const selectEvent = (eventId: string) => {
+    setSelectedEventId(eventId);
+    document.getElementById(`event-${eventId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Chat alerts link to one event as /videos/<id>#event-<eventId>; it renders after the video loads
+  useEffect(() => {
+    const eventId = window.location.hash.match(/^#event-(.+)$/)?.[1];
+    if (data && eventId) {
+      selectEvent(eventId);
+    }
+  }, [data]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="animate-pulse h-40 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  const video = data?.data;
+
+  if (!video) {
+    return (
+      <Card className="border-dashed">
+        <CardContent className="p-12 text-center">
+          <Video className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Video Not Found</h3>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/videos">Back to videos</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const events: any[] = video.copyrightEvents || [];
+  const claims = events.filter((event) => event.type === 'CLAIM');
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/videos">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Videos
+        </Link>
+      </Button>
+
+      <div className="flex gap-4">
+        {video.thumbnailUrl ? (
+          <Image
+            src={video.thumbnailUrl}
+            alt={video.title}
+            width={240}
+            height={135}
+            className="rounded object-cover"
+          />
+        ) : (
+          <div className="w-60 h-[135px] bg-gray-100 rounded flex items-center justify-center">
+            <Video className="h-8 w-8 text-gray-400" />
+          </div>
+        )}
+        <div className="min-w-0 space-y-2">
+          <h1 className="text-2xl font-bold">{video.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {video.channel?.title} | Published {formatDate(video.publishedAt)}
+          </p>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span>{formatNumber(video.viewCount || 0)} views</span>
+            {video.durationSeconds > 0 && <span>{formatDuration(video.durationSeconds * 1000)}</span>}
+            <span className="capitalize">{video.privacyStatus}</span>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={video.youtubeUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View on YouTube
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scissors className="h-5 w-5" />
+            Claimed Segments
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Trim or mute these parts to release the claims. Select a claim to see its details.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <ClaimTimeline
+            durationMs={(video.durationSeconds || 0) * 1000}
+            events={claims}
+            selectedEventId={selectedEventId}
+            onSelect={selectEvent}
+          />
+        </CardContent>
+      </Card>
+
+      {(claims.length > 0 || video.blockedRegions?.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Availability by Region
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RegionMap videoId={video.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Copyright Events ({events.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No copyright events on this video.</p>
+          ) : (
+            <div className="space-y-3">
+              {events.map((event) => (
+                <div
+                  key={event.id}
+                  id={`event-${event.id}`}
+                  className={cn(
+                    'rounded-lg p-3 text-sm bg-gray-50',
+                    selectedEventId === event.id && 'ring-2 ring-primary'
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                          {event.type}
+                        </span>
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                          {event.status}
+                        </span>
+                        {event.policyAction && (
+                          <span className="text-xs text-muted-foreground capitalize">
+                            {event.policyAction}
+                          </span>
+                        )}
+                      </div>
+                      {event.claimedContent && <p className="font-medium">{event.claimedContent}</p>}
+                      {event.claimant && (
+                        <p className="text-muted-foreground">Claimed by {event.claimant.name}</p>
+                      )}
+                      {event.matchSegments?.length > 0 && (
+                        <p className="text-muted-foreground">
+                          Matched at{' '}
+                          {event.matchSegments
+                            .map(
+                              (segment: any) =>
+                                `${formatDuration(segment.videoStartMs)}-${formatDuration(segment.videoEndMs)}`
+                            )
+                            .join(', ')}
+                          {event.totalMatchMs != null &&
+                            ` (${formatDuration(event.totalMatchMs)} total${
+                              event.matchPercent != null ? `, ${event.matchPercent}% of the video` : ''
+                            })`}
+                        </p>
+                      )}
+                      {event.estimatedRevenueAtRisk > 0 && (
+                        <p className="text-muted-foreground">
+                          Est. revenue at risk: {formatCurrency(event.estimatedRevenueAtRisk)}
+                        </p>
+                      )}
+                      {event.explanation && (
+                        <p className="text-xs text-muted-foreground italic">{event.explanation}</p>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground text-right whitespace-nowrap">
+                      <p>Detected: {formatDate(event.detectedAt)}</p>
+                      {event.resolvedAt && <p>Resolved: {formatDate(event.resolvedAt)}</p>}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,10 +5,11 @@ import { useQuery } from '@tanstack/react-query';
 import Image from 'next/image';
 import Link from 'next/link';
 import { api } from '@/lib/api';
-import { formatDate, formatNumber } from '@/lib/utils';
+import { formatCurrency, formatDate, formatDuration, formatNumber } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { RegionMap } from '@/components/region-map';
 import {
   Video,
   Search,
@@ -19,6 +20,7 @@ import {
   Filter,
   Code,
   LayoutDashboard,
+  Globe,
 } from 'lucide-react';
 
 const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
@@ -34,20 +36,17 @@ export default function VideosPage() {
   );
   const [videoTypeFilter, setVideoTypeFilter] = useState<'all' | 'short' | 'long'>('all');
   const [jsonViewIds, setJsonViewIds] = useState<Set<string>>(new Set());
+  const [regionViewId, setRegionViewId] = useState<string | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
 
   // Check if user is admin
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      api.setToken(token);
-      api.getMe().then((response) => {
-        if (response.success && response.data) {
-          const role = (response.data as any).role;
-          setIsAdmin(role === 'ADMIN' || role === 'SUPER_ADMIN');
-        }
-      });
-    }
+    api.getMe().then((response) => {
+      if (response.success && response.data) {
+        const role = (response.data as any).role;
+        setIsAdmin(role === 'ADMIN' || role === 'SUPER_ADMIN');
+      }
+    });
   }, []);
 
   const toggleJsonView = (videoId: string) => {
@@ -350,7 +349,11 @@ export default function VideosPage() {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-start justify-between gap-4">
                               <div className="min-w-0">
-                                <h3 className="font-medium truncate">{video.title}</h3>
+                                <h3 className="font-medium truncate">
+                                  <Link href={`/videos/${video.id}`} className="hover:underline">
+                                    {video.title}
+                                  </Link>
+                                </h3>
                                 <p className="text-sm text-muted-foreground mt-1">
                                   {video.channel?.title} | Published{' '}
                                   {formatDate(video.publishedAt)}
@@ -392,10 +395,33 @@ export default function VideosPage() {
                                   </Link>
                                 </Button>
                               )}
+                              {(video.blockedRegions?.length > 0 ||
+                                video.events?.some((e: any) => e.type === 'CLAIM')) && (
+                                <Button
+                                  variant={regionViewId === video.id ? 'default' : 'outline'}
+                                  size="sm"
+                                  onClick={() =>
+                                    setRegionViewId(regionViewId === video.id ? null : video.id)
+                                  }
+                                >
+                                  <Globe className="h-4 w-4 mr-2" />
+                                  Regions
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </div>
 
+                        {regionViewId === video.id && (
+                          <div className="border-t pt-4 mt-4">
+                            <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+                              <Globe className="h-4 w-4 text-muted-foreground" />
+                              Availability by Region
+                            </h4>
+                            <RegionMap videoId={video.id} />
+                          </div>
+                        )}
+
                         {/* Event Details */}
                         {video.events && video.events.length > 0 && (
                           <div className="border-t pt-4 mt-4">
@@ -470,6 +496,15 @@ export default function VideosPage() {
                                           <span className="text-muted-foreground capitalize">{event.policyAction}</span>
                                         </p>
                                       )}
+                                      {event.totalMatchMs != null && (
+                                        <p className="mt-1">
+                                          <span className="font-medium">Matched:</span>{' '}
+                                          <span className="text-muted-foreground">
+                                            {formatDuration(event.totalMatchMs)}
+                                            {event.matchPercent != null && ` (${event.matchPercent}% of the video)`}
+                                          </span>
+                                        </p>
+                                      )}
                                       {(event.monetizationImpact || event.viewabilityImpact) && (
                                         <p className="mt-1">
                                           <span className="font-medium">Impact:</span>{' '}
@@ -480,6 +515,14 @@ export default function VideosPage() {
                                           </span>
                                         </p>
                                       )}
+                                      {event.estimatedRevenueAtRisk > 0 && (
+                                        <p className="mt-1">
+                                          <span className="font-medium">Est. revenue at risk:</span>{' '}
+                                          <span className="text-muted-foreground">
+                                            {formatCurrency(event.estimatedRevenueAtRisk)}
+                                          </span>
+                                        </p>
+                                      )}
                                       {event.affectedRegions && event.affectedRegions.length > 0 && (
                                         <p className="mt-1">
                                           <span className="font-medium">Regions:</span>{' '}
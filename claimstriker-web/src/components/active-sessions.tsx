@@ -0,0 +1,147 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type Session } from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const systems: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return [browser, system].filter(Boolean).join(' on ') || 'Unknown device';
+}
+
+function isMobile(session: Session): boolean {
+  return /Mobile|Android|iPhone|iPad/.test(session.userAgent || '');
+}
+
+export function ActiveSessionsCard() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: () => api.getSessions(),
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ variant: 'destructive', title, description: error.message });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: Session) => api.revokeSession(session.id),
+    onSuccess: (_, session) => {
+      if (session.current) {
+        api.setToken(null);
+        router.push('/login');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+    onError: onError('Failed to sign out session'),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => api.revokeOtherSessions(),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast({
+        title: 'Signed out other sessions',
+        description: `${response.data?.revoked ?? 0} session(s) signed out.`,
+      });
+    },
+    onError: onError('Failed to sign out other sessions'),
+  });
+
+  const sessions = data?.data || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="animate-pulse h-4 bg-gray-200 rounded w-1/2"></div>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => {
+              const Icon = isMobile(session) ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="py-3 first:pt-0 flex items-center justify-between gap-4"
+                >
+                  <div className="flex items-center gap-3">
+                    <Icon className="h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">
+                        {describeDevice(session.userAgent)}
+                        {session.current && (
+                          <span className="ml-2 text-xs text-green-700">This device</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress && `${session.ipAddress} · `}
+                        Last active {formatDateTime(session.lastSeenAt)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <LogOut className="h-4 w-4 mr-1" />
+                    Sign out
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {sessions.length > 1 && (
+          <div className="border-t pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+            >
+              Sign out all other sessions
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
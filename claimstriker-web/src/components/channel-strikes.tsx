@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type CopyrightStrike, type StrikeStanding } from '@/lib/api';
+import { cn, formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { ShieldAlert, ShieldCheck, Plus } from 'lucide-react';
+
+export const standingLabels: Record<
+  StrikeStanding['standing'],
+  { label: string; className: string }
+> = {
+  GOOD_STANDING: { label: 'Good standing', className: 'text-green-700 bg-green-50' },
+  WARNING: { label: '1 strike', className: 'text-amber-700 bg-amber-50' },
+  AT_RISK: { label: 'At risk of termination', className: 'text-red-700 bg-red-50' },
+  TERMINATION: { label: 'Termination', className: 'text-white bg-red-600' },
+};
+
+export function StrikeStandingBadge({ standing }: { standing: StrikeStanding }) {
+  const style = standingLabels[standing.standing];
+  const Icon = standing.activeStrikes > 0 ? ShieldAlert : ShieldCheck;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full',
+        style.className
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {standing.activeStrikes > 1 ? `${standing.activeStrikes} strikes` : style.label}
+    </span>
+  );
+}
+
+function getStrikeCountdown(strike: CopyrightStrike): string {
+  if (strike.status === 'RETRACTED') return 'Retracted';
+  if (!strike.isActive) return 'Expired';
+  if (strike.daysUntilExpiry > 0) {
+    return `Expires in ${strike.daysUntilExpiry} day${strike.daysUntilExpiry === 1 ? '' : 's'}`;
+  }
+  return 'Complete Copyright School to expire';
+}
+
+export function ChannelStrikes({ channelId }: { channelId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+  const [issuedAt, setIssuedAt] = useState('');
+  const [claimantName, setClaimantName] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['channel-strikes', channelId],
+    queryFn: () => api.getChannelStrikes(channelId),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['channel-strikes', channelId] });
+    queryClient.invalidateQueries({ queryKey: ['channels'] });
+    queryClient.invalidateQueries({ queryKey: ['events-summary'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.createChannelStrike(channelId, {
+        issuedAt: new Date(issuedAt).toISOString(),
+        claimantName: claimantName || undefined,
+        reason: reason || undefined,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setAdding(false);
+      setIssuedAt('');
+      setClaimantName('');
+      setReason('');
+      toast({ title: 'Strike recorded' });
+    },
+    onError: (error: any) => {
+      toast({ variant: 'destructive', title: 'Failed to record strike', description: error.message });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      strikeId,
+      ...changes
+    }: { strikeId: string; courseCompleted?: boolean; retracted?: boolean }) =>
+      api.updateChannelStrike(channelId, strikeId, changes),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({ variant: 'destructive', title: 'Failed to update strike', description: error.message });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse h-4 bg-gray-200 rounded w-1/2"></div>;
+  }
+
+  const strikes = data?.data?.strikes || [];
+
+  return (
+    <div className="space-y-3">
+      {strikes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No copyright strikes recorded.</p>
+      ) : (
+        <ul className="divide-y">
+          {strikes.map((strike) => (
+            <li key={strike.id} className="py-2 first:pt-0 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className={cn('text-sm font-medium truncate', !strike.isActive && 'text-muted-foreground')}>
+                  {strike.video?.title || strike.reason || 'Copyright strike'}
+                </p>
+                <span
+                  className={cn(
+                    'text-xs whitespace-nowrap',
+                    strike.isActive ? 'text-red-600' : 'text-muted-foreground'
+                  )}
+                >
+                  {getStrikeCountdown(strike)}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Issued {formatDate(strike.issuedAt)}
+                {strike.claimant && ` by ${strike.claimant.name}`}
+                {strike.source === 'MANUAL' && ' · entered manually'}
+              </p>
+              <div className="flex items-center gap-4 text-xs">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={!strike.courseRequired}
+                    disabled={strike.status === 'RETRACTED' || updateMutation.isPending}
+                    onChange={(e) =>
+                      updateMutation.mutate({ strikeId: strike.id, courseCompleted: e.target.checked })
+                    }
+                    className="h-3 w-3"
+                  />
+                  Copyright School completed
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={strike.status === 'RETRACTED'}
+                    disabled={updateMutation.isPending}
+                    onChange={(e) =>
+                      updateMutation.mutate({ strikeId: strike.id, retracted: e.target.checked })
+                    }
+                    className="h-3 w-3"
+                  />
+                  Retracted
+                </label>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {adding ? (
+        <form
+          className="space-y-3 border-t pt-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor={`strike-issued-${channelId}`}>Issued on</Label>
+              <Input
+                id={`strike-issued-${channelId}`}
+                type="date"
+                required
+                value={issuedAt}
+                onChange={(e) => setIssuedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`strike-claimant-${channelId}`}>Claimant</Label>
+              <Input
+                id={`strike-claimant-${channelId}`}
+                value={claimantName}
+                onChange={(e) => setClaimantName(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`strike-reason-${channelId}`}>Reason</Label>
+            <Input
+              id={`strike-reason-${channelId}`}
+              placeholder="As stated in YouTube's notice"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={createMutation.isPending || !issuedAt}>
+              Save strike
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setAdding(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setAdding(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Record a strike
+        </Button>
+      )}
+    </div>
+  );
+}
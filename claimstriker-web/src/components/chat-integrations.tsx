@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type ChatIntegration, type Notification } from '@/lib/api';
+import { cn, formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+
+const providerLabels: Record<ChatIntegration['provider'], string> = {
+  SLACK: 'Slack',
+  DISCORD: 'Discord',
+};
+
+const webhookPlaceholders: Record<ChatIntegration['provider'], string> = {
+  SLACK: 'https://hooks.slack.com/services/...',
+  DISCORD: 'https://discord.com/api/webhooks/...',
+};
+
+const typeLabels: Record<Notification['type'], string> = {
+  NEW_CLAIM: 'Claims',
+  NEW_STRIKE: 'Strikes',
+  MONETIZATION_CHANGE: 'Monetization',
+  DISPUTE_UPDATE: 'Disputes',
+  SYNC_ERROR: 'Sync errors',
+  WEEKLY_SUMMARY: 'Weekly summary',
+};
+
+export function ChatIntegrationsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [provider, setProvider] = useState<ChatIntegration['provider']>('SLACK');
+  const [name, setName] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['chat-integrations'],
+    queryFn: () => api.getChatIntegrations(),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['chat-integrations'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ variant: 'destructive', title, description: error.message });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.createChatIntegration({ provider, name: name || undefined, webhookUrl }),
+    onSuccess: () => {
+      invalidate();
+      setName('');
+      setWebhookUrl('');
+      toast({
+        title: 'Integration connected',
+        description: `${providerLabels[provider]} will now receive your alerts.`,
+      });
+    },
+    onError: onError('Failed to connect integration'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...changes }: { id: string } & Parameters<typeof api.updateChatIntegration>[1]) =>
+      api.updateChatIntegration(id, changes),
+    onSuccess: invalidate,
+    onError: onError('Failed to update integration'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteChatIntegration(id),
+    onSuccess: invalidate,
+    onError: onError('Failed to remove integration'),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => api.testChatIntegration(id),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Test message sent', description: 'Check your channel.' });
+    },
+    onError: (error: any) => {
+      invalidate();
+      onError('Test message failed')(error);
+    },
+  });
+
+  const toggleType = (integration: ChatIntegration, type: Notification['type']) => {
+    const notificationTypes = integration.notificationTypes.includes(type)
+      ? integration.notificationTypes.filter((t) => t !== type)
+      : [...integration.notificationTypes, type];
+
+    if (notificationTypes.length > 0) {
+      updateMutation.mutate({ id: integration.id, notificationTypes });
+    }
+  };
+
+  const integrations = data?.data || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Slack &amp; Discord
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="animate-pulse h-4 bg-gray-200 rounded w-1/2"></div>
+        ) : integrations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Post alerts to a team channel by adding an incoming webhook.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {integrations.map((integration) => (
+              <div key={integration.id} className="py-3 first:pt-0 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {integration.name || providerLabels[integration.provider]}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {providerLabels[integration.provider]}
+                      </span>
+                    </p>
+                    <p
+                      className={cn(
+                        'text-xs',
+                        integration.lastError ? 'text-red-600' : 'text-muted-foreground'
+                      )}
+                    >
+                      {integration.lastError
+                        ? `Last delivery failed: ${integration.lastError}`
+                        : integration.lastDeliveredAt
+                          ? `Last message ${formatDateTime(integration.lastDeliveredAt)}`
+                          : 'No messages sent yet'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={integration.isActive}
+                        onChange={(e) =>
+                          updateMutation.mutate({ id: integration.id, isActive: e.target.checked })
+                        }
+                        className="h-4 w-4"
+                      />
+                      Active
+                    </label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => testMutation.mutate(integration.id)}
+                      disabled={testMutation.isPending}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Test
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(integration.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(typeLabels) as Notification['type'][]).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => toggleType(integration, type)}
+                      className={cn(
+                        'text-xs px-2 py-1 rounded-full border',
+                        integration.notificationTypes.includes(type)
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'bg-white text-muted-foreground'
+                      )}
+                    >
+                      {typeLabels[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          className="grid gap-4 sm:grid-cols-[140px_1fr_2fr_auto] sm:items-end border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="chat-provider">Provider</Label>
+            <select
+              id="chat-provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as ChatIntegration['provider'])}
+              className="flex h-10 w-full text-sm border rounded-md px-3 py-2 bg-white"
+            >
+              <option value="SLACK">Slack</option>
+              <option value="DISCORD">Discord</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="chat-name">Name</Label>
+            <Input
+              id="chat-name"
+              placeholder="#copyright-alerts"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="chat-url">Webhook URL</Label>
+            <Input
+              id="chat-url"
+              type="url"
+              required
+              placeholder={webhookPlaceholders[provider]}
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={createMutation.isPending || !webhookUrl}>
+            <Plus className="h-4 w-4 mr-2" />
+            Connect
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { cn, formatDuration } from '@/lib/utils';
+
+export interface TimelineEvent {
+  id: string;
+  type: string;
+  status: string;
+  policyAction: string | null;
+  claimedContent: string | null;
+  claimant?: { name: string } | null;
+  matchStartMs: number | null;
+  matchEndMs: number | null;
+  matchSegments?: Array<{ position: number; videoStartMs: number; videoEndMs: number }>;
+}
+
+const actionStyles: Record<string, { label: string; className: string }> = {
+  takedown: { label: 'Taken down', className: 'bg-gray-800' },
+  block: { label: 'Blocked', className: 'bg-red-500' },
+  monetize: { label: 'Monetized by claimant', className: 'bg-amber-400' },
+  track: { label: 'Tracked', className: 'bg-blue-400' },
+};
+
+const fallbackStyle = { label: 'Other', className: 'bg-gray-400' };
+
+function getSegments(event: TimelineEvent) {
+  if (event.matchSegments && event.matchSegments.length > 0) {
+    return event.matchSegments;
+  }
+  if (event.matchStartMs != null && event.matchEndMs != null) {
+    return [{ position: 0, videoStartMs: event.matchStartMs, videoEndMs: event.matchEndMs }];
+  }
+  return [];
+}
+
+function Segments({
+  event,
+  durationMs,
+  className,
+}: {
+  event: TimelineEvent;
+  durationMs: number;
+  className?: string;
+}) {
+  const style = actionStyles[event.policyAction || ''] || fallbackStyle;
+
+  return (
+    <>
+      {getSegments(event).map((segment) => {
+        const start = Math.min(segment.videoStartMs, durationMs);
+        const end = Math.min(segment.videoEndMs, durationMs);
+        return (
+          <span
+            key={segment.position}
+            title={`${formatDuration(segment.videoStartMs)}-${formatDuration(segment.videoEndMs)}`}
+            className={cn('absolute inset-y-0 rounded-sm', style.className, className)}
+            style={{
+              left: `${(start / durationMs) * 100}%`,
+              // Keep very short matches visible
+              width: `max(2px, ${((end - start) / durationMs) * 100}%)`,
+            }}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * The video's duration as a bar with each claim's matched segments,
+ * colored by the claim's policy action.
+ */
+export function ClaimTimeline({
+  durationMs,
+  events,
+  selectedEventId,
+  onSelect,
+}: {
+  durationMs: number;
+  events: TimelineEvent[];
+  selectedEventId?: string | null;
+  onSelect?: (eventId: string) => void;
+}) {
+  const matched = events.filter((event) => getSegments(event).length > 0);
+
+  if (durationMs <= 0) {
+    return <p className="text-sm text-muted-foreground">Video duration is not known yet.</p>;
+  }
+
+  if (matched.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No claims on this video have matched segments.
+      </p>
+    );
+  }
+
+  const usedActions = Array.from(new Set(matched.map((event) => event.policyAction || '')));
+
+  return (
+    <div className="space-y-4">
+      {/* All claims overlaid */}
+      <div>
+        <div className="relative h-8 bg-gray-100 rounded">
+          {matched.map((event) => (
+            <Segments key={event.id} event={event} durationMs={durationMs} className="opacity-80" />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground mt-1">
+          {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+            <span key={fraction}>{formatDuration(durationMs * fraction)}</span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        {usedActions.map((action) => {
+          const style = actionStyles[action] || fallbackStyle;
+          return (
+            <span key={action} className="flex items-center gap-1">
+              <span className={cn('inline-block h-3 w-3 rounded-sm', style.className)} />
+              {style.label}
+            </span>
+          );
+        })}
+      </div>
+
+      {/* One row per claim */}
+      <div className="space-y-2">
+        {matched.map((event) => (
+          <button
+            key={event.id}
+            type="button"
+            onClick={() => onSelect?.(event.id)}
+            className={cn(
+              'w-full text-left rounded p-2 hover:bg-gray-50',
+              selectedEventId === event.id && 'bg-gray-50 ring-1 ring-gray-300'
+            )}
+          >
+            <p className="text-sm truncate">
+              {event.claimedContent || event.claimant?.name || event.type}
+              {event.claimedContent && event.claimant && (
+                <span className="text-muted-foreground"> · {event.claimant.name}</span>
+              )}
+            </p>
+            <div className="relative h-3 bg-gray-100 rounded mt-1">
+              <Segments event={event} durationMs={durationMs} />
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Link from 'next/link';
+import { api, type Notification } from '@/lib/api';
+import { cn, formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Bell,
+  FileWarning,
+  ShieldAlert,
+  DollarSign,
+  RefreshCw,
+  BarChart3,
+  Scale,
+  X,
+} from 'lucide-react';
+
+// Poll for new notifications while the dashboard is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const typeIcons: Record<Notification['type'], { icon: any; className: string }> = {
+  NEW_CLAIM: { icon: FileWarning, className: 'text-amber-600' },
+  NEW_STRIKE: { icon: ShieldAlert, className: 'text-red-600' },
+  MONETIZATION_CHANGE: { icon: DollarSign, className: 'text-blue-600' },
+  DISPUTE_UPDATE: { icon: Scale, className: 'text-green-600' },
+  SYNC_ERROR: { icon: RefreshCw, className: 'text-gray-600' },
+  WEEKLY_SUMMARY: { icon: BarChart3, className: 'text-purple-600' },
+};
+
+function getNotificationHref(notification: Notification): string {
+  if (notification.type === 'SYNC_ERROR') {
+    return '/channels';
+  }
+  if (notification.type === 'WEEKLY_SUMMARY') {
+    return '/dashboard';
+  }
+  return '/events';
+}
+
+export function NotificationBell({
+  align = 'left',
+  className,
+}: {
+  align?: 'left' | 'right';
+  className?: string;
+}) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data: unread } = useQuery({
+    queryKey: ['notifications', 'unread-count'],
+    queryFn: () => api.getUnreadNotificationCount(),
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: inbox, isLoading } = useQuery({
+    queryKey: ['notifications', 'inbox'],
+    queryFn: () => api.getNotifications({ limit: 10 }),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['notifications'] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: (notificationId: string) => api.markNotificationRead(notificationId),
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => api.markNotificationsRead(),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (notificationId: string) => api.deleteNotification(notificationId),
+    onSuccess: invalidate,
+  });
+
+  // Close when clicking outside the panel
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const unreadCount = unread?.data?.count || 0;
+  const notifications = inbox?.data?.notifications || [];
+
+  return (
+    <div ref={containerRef} className={cn('relative', className)}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        onClick={() => setOpen(!open)}
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div
+          className={cn(
+            'absolute top-full mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white border rounded-lg shadow-lg z-50',
+            align === 'left' ? 'left-0' : 'right-0'
+          )}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                className="text-xs text-primary hover:underline disabled:opacity-50"
+                onClick={() => markAllReadMutation.mutate()}
+                disabled={markAllReadMutation.isPending}
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                You&apos;re all caught up
+              </p>
+            ) : (
+              notifications.map((notification) => {
+                const { icon: Icon, className: iconClassName } =
+                  typeIcons[notification.type] || typeIcons.NEW_CLAIM;
+
+                return (
+                  <div
+                    key={notification.id}
+                    className={cn(
+                      'group flex gap-3 px-4 py-3 border-b last:border-b-0 hover:bg-gray-50',
+                      !notification.isRead && 'bg-primary/5'
+                    )}
+                  >
+                    <Icon className={cn('h-4 w-4 mt-0.5 flex-shrink-0', iconClassName)} />
+                    <Link
+                      href={getNotificationHref(notification)}
+                      className="flex-1 min-w-0"
+                      onClick={() => {
+                        if (!notification.isRead) {
+                          markReadMutation.mutate(notification.id);
+                        }
+                        setOpen(false);
+                      }}
+                    >
+                      <p
+                        className={cn(
+                          'text-sm truncate',
+                          !notification.isRead && 'font-medium'
+                        )}
+                      >
+                        {notification.title}
+                      </p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDateTime(notification.createdAt)}
+                      </p>
+                    </Link>
+                    <button
+                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 self-start"
+                      onClick={() => deleteMutation.mutate(notification.id)}
+                      aria-label="Delete notification"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { api, type PolicyAction } from '@/lib/api';
+import { COUNTRIES_BY_CONTINENT, getCountryName } from '@/lib/countries';
+import { cn } from '@/lib/utils';
+
+type RegionStatus = PolicyAction | 'unclaimed';
+
+const statusStyles: Record<RegionStatus, { label: string; className: string }> = {
+  unclaimed: { label: 'No claim', className: 'bg-green-100 text-green-800' },
+  track: { label: 'Tracked', className: 'bg-blue-100 text-blue-800' },
+  monetize: { label: 'Monetized by claimant', className: 'bg-amber-100 text-amber-800' },
+  block: { label: 'Blocked', className: 'bg-red-500 text-white' },
+  takedown: { label: 'Taken down', className: 'bg-gray-800 text-white' },
+};
+
+export function RegionMap({ videoId }: { videoId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['video-regions', videoId],
+    queryFn: () => api.getVideoRegions(videoId),
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse h-24 bg-gray-200 rounded"></div>;
+  }
+
+  const regions = data?.data;
+  if (!regions) {
+    return null;
+  }
+
+  // A listed null means no claim applies there, so it doesn't fall back to the default
+  const statusOf = (country: string): RegionStatus =>
+    (country in regions.territories ? regions.territories[country] : regions.default) ||
+    'unclaimed';
+
+  const counts = Object.values(COUNTRIES_BY_CONTINENT)
+    .flat()
+    .reduce<Partial<Record<RegionStatus, number>>>((acc, country) => {
+      const status = statusOf(country);
+      acc[status] = (acc[status] || 0) + 1;
+      return acc;
+    }, {});
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(Object.keys(statusStyles) as RegionStatus[])
+          .filter((status) => counts[status])
+          .map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={cn('inline-block h-3 w-3 rounded-sm', statusStyles[status].className)} />
+              {statusStyles[status].label} ({counts[status]})
+            </span>
+          ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {Object.entries(COUNTRIES_BY_CONTINENT).map(([continent, countries]) => (
+          <div key={continent}>
+            <p className="text-xs font-medium text-muted-foreground mb-1">{continent}</p>
+            <div className="flex flex-wrap gap-0.5">
+              {countries.map((country) => {
+                const status = statusOf(country);
+                return (
+                  <span
+                    key={country}
+                    title={`${getCountryName(country)}: ${statusStyles[status].label}`}
+                    className={cn(
+                      'w-7 text-center text-[10px] leading-5 rounded-sm font-mono',
+                      statusStyles[status].className
+                    )}
+                  >
+                    {country}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {regions.claims.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Combined across {regions.claims.length} open claims; where claims differ the most
+          restrictive action is shown.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { Lock } from 'lucide-react';
+
+export function SecurityPolicyCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ['admin-settings'],
+    queryFn: () => api.getAdminSettings(),
+  });
+
+  const { data: me } = useQuery({
+    queryKey: ['me'],
+    queryFn: () => api.getMe(),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (requireTwoFactorForAdmins: boolean) =>
+      api.updateAdminSettings({ requireTwoFactorForAdmins }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['admin-settings'], response);
+      toast({ title: 'Security policy updated' });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update security policy',
+        description: error.message,
+      });
+    },
+  });
+
+  const canManage = (me?.data?.permissions || []).includes('MANAGE_SYSTEM');
+  const requireTwoFactor = settings?.data?.requireTwoFactorForAdmins ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Security Policy
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            className="h-4 w-4 mt-1"
+            checked={requireTwoFactor}
+            disabled={!settings || !canManage || updateMutation.isPending}
+            onChange={(e) => updateMutation.mutate(e.target.checked)}
+          />
+          <span>
+            <span className="block text-sm font-medium">
+              Require two-factor authentication for admins
+            </span>
+            <span className="block text-sm text-gray-500">
+              Admins and super admins without 2FA can still sign in, but can&apos;t open the
+              admin area until they set it up.
+              {!canManage && ' Only super admins can change this.'}
+            </span>
+          </span>
+        </label>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { api } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, ShieldCheck } from 'lucide-react';
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast({ title: 'Recovery codes copied' });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <p className="text-sm text-amber-900">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="rounded bg-white px-2 py-1 text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={copy}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['two-factor'],
+    queryFn: () => api.getTwoFactorStatus(),
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ variant: 'destructive', title, description: error.message });
+  };
+
+  const onCodesIssued = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setCode('');
+    queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => api.setupTwoFactor(),
+    onSuccess: (response) => setSetup(response.data || null),
+    onError: onError('Failed to start setup'),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => api.enableTwoFactor(code.trim()),
+    onSuccess: (response) => {
+      setSetup(null);
+      onCodesIssued(response.data?.recoveryCodes || []);
+      toast({ title: 'Two-factor authentication enabled' });
+    },
+    onError: onError('Failed to enable two-factor authentication'),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => api.regenerateRecoveryCodes(code.trim()),
+    onSuccess: (response) => onCodesIssued(response.data?.recoveryCodes || []),
+    onError: onError('Failed to generate recovery codes'),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => api.disableTwoFactor(password, code.trim()),
+    onSuccess: () => {
+      setCode('');
+      setPassword('');
+      queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+      toast({ title: 'Two-factor authentication disabled' });
+    },
+    onError: onError('Failed to disable two-factor authentication'),
+  });
+
+  const status = data?.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="animate-pulse h-4 bg-gray-200 rounded w-1/2"></div>
+        ) : recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Enabled{status.enabledAt && ` since ${formatDate(status.enabledAt)}`}.{' '}
+              {status.recoveryCodesRemaining} of your recovery codes are unused.
+            </p>
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="two-factor-code">Authentication code</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!code.trim() || regenerateMutation.isPending}
+              >
+                New recovery codes
+              </Button>
+            </div>
+            {status.required ? (
+              <p className="text-xs text-muted-foreground">
+                Two-factor authentication is required for admin accounts and can&apos;t be
+                turned off.
+              </p>
+            ) : (
+              <div className="space-y-2 max-w-sm border-t pt-4">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!code.trim() || !password || disableMutation.isPending}
+                >
+                  Turn off two-factor authentication
+                </Button>
+              </div>
+            )}
+          </>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+              <div className="rounded-lg border bg-white p-3 w-fit">
+                <QRCodeSVG value={setup.otpauthUri} size={160} />
+              </div>
+              <div className="space-y-1 text-sm">
+                <p className="text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+                <p className="font-mono break-all">{setup.secret}</p>
+              </div>
+            </div>
+            <form
+              className="flex gap-2 max-w-sm"
+              onSubmit={(e) => {
+                e.preventDefault();
+                enableMutation.mutate();
+              }}
+            >
+              <Input
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+              <Button type="submit" disabled={!code.trim() || enableMutation.isPending}>
+                Enable
+              </Button>
+            </form>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Protect your account and your channels&apos; YouTube access with a code from an
+              authenticator app when you sign in.
+            </p>
+            {status.required && (
+              <p className="text-sm text-amber-700">
+                Two-factor authentication is required for admin accounts. Set it up to use the
+                admin area.
+              </p>
+            )}
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              Set up two-factor authentication
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
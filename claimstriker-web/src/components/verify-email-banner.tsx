@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { MailWarning } from 'lucide-react';
+
+export function VerifyEmailBanner({ email }: { email?: string }) {
+  const { toast } = useToast();
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const resend = async () => {
+    setIsSending(true);
+    try {
+      await api.sendVerificationEmail();
+      setSent(true);
+      toast({ title: 'Verification email sent', description: `Check ${email || 'your inbox'}.` });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to send verification email',
+        description: error.message,
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+      <div className="flex items-center gap-2">
+        <MailWarning className="h-5 w-5 shrink-0" />
+        <span>
+          Confirm your email address{email && <> ({email})</>} to make sure claim alerts reach you.
+        </span>
+      </div>
+      <Button variant="outline" size="sm" onClick={resend} disabled={isSending || sent}>
+        {sent ? 'Email sent' : isSending ? 'Sending...' : 'Resend email'}
+      </Button>
+    </div>
+  );
+}
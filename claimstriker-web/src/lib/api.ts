@@ -17,15 +17,38 @@ interface PaginatedResponse<T> extends ApiResponse<T[]> {
 }
 
 class ApiClient {
+  // Access token, kept in memory only; the httpOnly refresh cookie restores it after a reload
   private token: string | null = null;
+  private refreshing: Promise<boolean> | null = null;
 
   setToken(token: string | null) {
     this.token = token;
   }
 
+  // Concurrent 401s share a single refresh, since each refresh rotates the cookie
+  private refreshToken(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = fetch(`${API_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+        .then(async (response) => {
+          const data = await response.json();
+          this.token = response.ok ? data.data.token : null;
+          return response.ok;
+        })
+        .catch(() => false)
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retry = true
   ): Promise<T> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -39,8 +62,16 @@ class ApiClient {
     const response = await fetch(`${API_URL}${endpoint}`, {
       ...options,
       headers,
+      credentials: 'include',
     });
 
+    // The access token expired (or was never loaded); get a new one and try once more
+    if (response.status === 401 && retry && !endpoint.startsWith('/auth/login')) {
+      if (await this.refreshToken()) {
+        return this.request<T>(endpoint, options, false);
+      }
+    }
+
     const data = await response.json();
 
     if (!response.ok) {
@@ -59,12 +90,109 @@ class ApiClient {
   }
 
   async login(email: string, password: string) {
-    return this.request<ApiResponse<{ token: string; user: any }>>('/auth/login', {
+    return this.request<ApiResponse<LoginResult>>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     });
   }
 
+  async loginTwoFactor(challengeToken: string, code: string) {
+    return this.request<ApiResponse<LoginResult>>('/auth/login/2fa', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, code }),
+    });
+  }
+
+  // Two-factor authentication
+  async getTwoFactorStatus() {
+    return this.request<ApiResponse<TwoFactorStatus>>('/auth/2fa');
+  }
+
+  async setupTwoFactor() {
+    return this.request<ApiResponse<{ secret: string; otpauthUri: string }>>('/auth/2fa/setup', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async enableTwoFactor(code: string) {
+    return this.request<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string) {
+    return this.request<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableTwoFactor(password: string, code: string) {
+    return this.request<ApiResponse<{ message: string }>>('/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password, code }),
+    });
+  }
+
+  async logout() {
+    try {
+      await this.request<ApiResponse<{ message: string }>>('/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+    } finally {
+      this.token = null;
+    }
+  }
+
+  async sendVerificationEmail() {
+    return this.request<ApiResponse<{ message: string }>>('/auth/verify-email/send', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async verifyEmail(token: string) {
+    return this.request<ApiResponse<{ message: string }>>('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async forgotPassword(email: string) {
+    return this.request<ApiResponse<{ message: string }>>('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string) {
+    return this.request<ApiResponse<{ message: string }>>('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async getSessions() {
+    return this.request<ApiResponse<Session[]>>('/auth/sessions');
+  }
+
+  async revokeSession(sessionId: string) {
+    return this.request<ApiResponse<{ message: string }>>(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async revokeOtherSessions() {
+    return this.request<ApiResponse<{ revoked: number }>>('/auth/sessions', {
+      method: 'DELETE',
+      body: JSON.stringify({}),
+    });
+  }
+
   async getMe() {
     return this.request<ApiResponse<any>>('/auth/me');
   }
@@ -111,6 +239,42 @@ class ApiClient {
     });
   }
 
+  async getChannelStrikes(channelId: string) {
+    return this.request<ApiResponse<StrikeStanding & { strikes: CopyrightStrike[] }>>(
+      `/channels/${channelId}/strikes`
+    );
+  }
+
+  async createChannelStrike(
+    channelId: string,
+    data: {
+      videoId?: string;
+      issuedAt: string;
+      claimantName?: string;
+      reason?: string;
+      notes?: string;
+    }
+  ) {
+    return this.request<ApiResponse<CopyrightStrike>>(`/channels/${channelId}/strikes`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateChannelStrike(
+    channelId: string,
+    strikeId: string,
+    data: { courseCompleted?: boolean; retracted?: boolean; notes?: string | null }
+  ) {
+    return this.request<ApiResponse<CopyrightStrike>>(
+      `/channels/${channelId}/strikes/${strikeId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
   // Videos
   async getVideos(params?: {
     page?: number;
@@ -136,6 +300,10 @@ class ApiClient {
     return this.request<ApiResponse<any>>(`/videos/${videoId}`);
   }
 
+  async getVideoRegions(videoId: string) {
+    return this.request<ApiResponse<VideoRegions>>(`/videos/${videoId}/regions`);
+  }
+
   // Events
   async getEventsSummary() {
     return this.request<ApiResponse<{
@@ -145,6 +313,7 @@ class ApiClient {
       claimsLast30Days: number;
       channelCount: number;
       videoCount: number;
+      strikesByChannel: Array<{ channelId: string; title: string } & StrikeStanding>;
     }>>('/events/summary');
   }
 
@@ -193,6 +362,112 @@ class ApiClient {
     });
   }
 
+  // Notifications
+  async getNotifications(params?: {
+    page?: number;
+    limit?: number;
+    unread?: boolean;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.unread) searchParams.set('unread', 'true');
+
+    const query = searchParams.toString();
+    return this.request<ApiResponse<{
+      notifications: Notification[];
+      unreadCount: number;
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+      };
+    }>>(`/notifications${query ? `?${query}` : ''}`);
+  }
+
+  async getUnreadNotificationCount() {
+    return this.request<ApiResponse<{ count: number }>>('/notifications/unread-count');
+  }
+
+  async markNotificationRead(notificationId: string) {
+    return this.request<ApiResponse<Notification>>(`/notifications/${notificationId}/read`, {
+      method: 'PATCH',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async markNotificationsRead(ids?: string[]) {
+    return this.request<ApiResponse<{ updated: number }>>('/notifications/read', {
+      method: 'POST',
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+  }
+
+  async deleteNotification(notificationId: string) {
+    return this.request<ApiResponse<any>>(`/notifications/${notificationId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async getNotificationPreferences() {
+    return this.request<ApiResponse<NotificationPreferences>>('/notifications/preferences');
+  }
+
+  async updateNotificationPreferences(data: Partial<NotificationPreferences>) {
+    return this.request<ApiResponse<NotificationPreferences>>('/notifications/preferences', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Chat integrations
+  async getChatIntegrations() {
+    return this.request<ApiResponse<ChatIntegration[]>>('/integrations');
+  }
+
+  async createChatIntegration(data: {
+    provider: ChatIntegration['provider'];
+    name?: string;
+    webhookUrl: string;
+    notificationTypes?: Notification['type'][];
+  }) {
+    return this.request<ApiResponse<ChatIntegration>>('/integrations', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateChatIntegration(
+    integrationId: string,
+    data: {
+      name?: string | null;
+      webhookUrl?: string;
+      notificationTypes?: Notification['type'][];
+      isActive?: boolean;
+    }
+  ) {
+    return this.request<ApiResponse<ChatIntegration>>(`/integrations/${integrationId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteChatIntegration(integrationId: string) {
+    return this.request<ApiResponse<any>>(`/integrations/${integrationId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async testChatIntegration(integrationId: string) {
+    return this.request<ApiResponse<ChatIntegration>>(`/integrations/${integrationId}/test`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
   // Admin
   async getAdminStats() {
     return this.request<ApiResponse<{
@@ -272,9 +547,143 @@ class ApiClient {
       };
     }>>(`/admin/channels${query ? `?${query}` : ''}`);
   }
+
+  async getAdminSettings() {
+    return this.request<ApiResponse<SystemSettings>>('/admin/settings');
+  }
+
+  async updateAdminSettings(settings: Partial<SystemSettings>) {
+    return this.request<ApiResponse<SystemSettings>>('/admin/settings', {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    });
+  }
+}
+
+export interface Notification {
+  id: string;
+  type:
+    | 'NEW_CLAIM'
+    | 'NEW_STRIKE'
+    | 'MONETIZATION_CHANGE'
+    | 'DISPUTE_UPDATE'
+    | 'SYNC_ERROR'
+    | 'WEEKLY_SUMMARY';
+  title: string;
+  message: string;
+  channelId: string | null;
+  videoId: string | null;
+  eventId: string | null;
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type NotificationDelivery = 'EMAIL' | 'IN_APP' | 'DIGEST_ONLY' | 'OFF';
+
+export interface NotificationPreferences {
+  preferences: {
+    type: Notification['type'];
+    delivery: NotificationDelivery;
+  }[];
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+    timezone: string;
+  };
+}
+
+export interface StrikeStanding {
+  activeStrikes: number;
+  standing: 'GOOD_STANDING' | 'WARNING' | 'AT_RISK' | 'TERMINATION';
+  nextExpiryAt: string | null;
+}
+
+export interface CopyrightStrike {
+  id: string;
+  channelId: string;
+  videoId: string | null;
+  copyrightEventId: string | null;
+  source: 'DETECTED' | 'MANUAL';
+  status: 'ACTIVE' | 'EXPIRED' | 'RETRACTED';
+  reason: string | null;
+  notes: string | null;
+  issuedAt: string;
+  expiresAt: string;
+  courseCompletedAt: string | null;
+  retractedAt: string | null;
+  isActive: boolean;
+  daysUntilExpiry: number;
+  courseRequired: boolean;
+  video?: { id: string; youtubeVideoId: string; title: string; thumbnailUrl: string | null } | null;
+  claimant?: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+export type PolicyAction = 'track' | 'monetize' | 'block' | 'takedown';
+
+export interface VideoRegions {
+  videoId: string;
+  default: PolicyAction | null;
+  territories: Record<string, PolicyAction | null>; // null = no claim there, despite the default
+  blockedRegions: string[];
+  claims: Array<{
+    id: string;
+    status: string;
+    claimedContent: string | null;
+    policyAction: string | null;
+    regionActions: {
+      default: PolicyAction | null;
+      territories: Record<string, PolicyAction | null>;
+    };
+    claimant: { id: string; name: string } | null;
+  }>;
+}
+
+export interface ChatIntegration {
+  id: string;
+  provider: 'SLACK' | 'DISCORD';
+  name: string | null;
+  notificationTypes: Notification['type'][];
+  isActive: boolean;
+  lastDeliveredAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Either signed in, or `twoFactorRequired` with a challenge for the code step
+export interface LoginResult {
+  token?: string;
+  user?: any;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  twoFactorSetupRequired?: boolean;
+  recoveryCodesRemaining?: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
 }
 
 // Admin types
+export interface SystemSettings {
+  requireTwoFactorForAdmins: boolean;
+}
+
 export interface AdminUser {
   id: string;
   email: string;